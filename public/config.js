@@ -0,0 +1,5 @@
+// Configuración en runtime: se puede reemplazar en el despliegue sin recompilar
+window.__APP_CONFIG__ = {
+  // apiBase: "https://excel-ai-backend-production.up.railway.app",
+  // timeoutMs: 60000,
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import {
   Upload,
   Send,
@@ -18,114 +18,304 @@ import {
   Shield,
   ArrowRight,
   Play,
+  History,
+  Trash2,
+  Square,
+  Download,
+  ImageIcon,
+  Copy,
+  FileSpreadsheet,
+  Eye,
+  Pin,
+  PinOff,
+  ArrowUp,
+  ArrowDown,
+  Heading,
+  StickyNote,
+  LayoutList,
+  Settings,
+  Plus,
+  WifiOff,
+  RotateCcw,
+  Database,
+  Link2,
+  Crosshair,
+  Table,
+  ShieldCheck,
+  ShieldOff,
+  AlertTriangle,
 } from "lucide-react";
+import { useApiClient, type ApiClient } from "./api";
+import { describeError, isAbortError, SessionExpiredError } from "./apiErrors";
 import {
-  LineChart,
-  Line,
-  BarChart,
-  Bar,
-  Cell,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  Legend,
-  ResponsiveContainer,
-  Pie,
-} from "recharts";
-
-const API_BASE = "https://excel-ai-backend-production.up.railway.app";
-const COLORS = [
-  "#8884d8",
-  "#82ca9d",
-  "#ffc658",
-  "#ff7300",
-  "#8dd1e1",
-  "#d084d0",
-  "#ffb347",
-];
-
-interface ApiResponse {
-  sessionId?: string;
-  totalRows?: number;
-  columns?: string[];
-  sampleData?: any[];
-  expiresAt?: string;
-  validFor?: string;
-  initialQuestion?: string;
-  initialResponse?: {
-    type: string;
-    aiResponse: string;
-    calculations?: any;
-    chartData?: ChartData;
-  };
-  question?: string;
-  response?: {
-    type: string;
-    aiResponse: string;
-    calculations?: any;
-    chartData?: ChartData;
-  };
-  reportData?: string;
-  generatedAt?: string;
-}
-
-interface ChartData {
-  type: "bar" | "pie" | "line";
-  labels: string[];
-  data: number[];
-  title: string;
-}
-
-interface Message {
-  type: "user" | "ai";
-  content: string;
-  calculations?: any;
-  chartData?: ChartData;
-  timestamp: string;
-}
-
-interface SessionData {
-  sessionId: string;
-  totalRows: number;
-  columns: string[];
-  sampleData: any[];
+  applyCompletion,
+  getCompletions,
+  inputHistoryFrom,
+  parseSlashCommand,
+  pushHistory,
+  type Completion,
+  type SlashCommand,
+} from "./chatCommands";
+import Markdown from "./Markdown";
+import {
+  createFormatter,
+  CURRENCY_OPTIONS,
+  FormatContext,
+  LOCALE_OPTIONS,
+  loadFormatSettings,
+  saveFormatSettings,
+  useFormatter,
+  type FormatSettings,
+  type NumberFormatter,
+} from "./format";
+import {
+  createI18n,
+  I18nContext,
+  LANGUAGE_OPTIONS,
+  loadLanguage,
+  saveLanguage,
+  useI18n,
+  type Language,
+  type MessageKey,
+} from "./i18n";
+import { getMetrics, metricEntries, metricLabel } from "./metrics";
+import {
+  createPrompt,
+  exportPrompts,
+  fillTemplate,
+  loadPrompts,
+  mergePrompts,
+  parsePromptExport,
+  promptCategories,
+  resolvePlaceholders,
+  savePrompts,
+  suggestPrompts,
+  templatePlaceholders,
+} from "./promptLibrary";
+import type { ReportSection } from "./pdfReport";
+import {
+  describeReportJob,
+  formatFileSize,
+  REPORT_RETRIES,
+  reportFormatOf,
+  type GeneratedReport,
+  type ReportFormat,
+  type ReportJob,
+} from "./reportJobs";
+import { withRetry } from "./retry";
+import {
+  UPLOAD_EXTENSIONS,
+  uploadFile,
+  validateUploadFile,
+  type SelectedFile,
+  type UploadedFile,
+  type UploadProgress,
+} from "./upload";
+import {
+  createTextItem,
+  isPinned,
+  moveItem,
+  resolveMessageIndex,
+  toReportOutline,
+  togglePin,
+  withoutPins,
+  type BoardItem,
+  type PinKind,
+  type ReportOutlineSection,
+} from "./reportBoard";
+import ChartRenderer from "./ChartRenderer";
+import {
+  buildExportSvg,
+  canCopyImages,
+  chartToCsvBlob,
+  chartToXlsxBlob,
+  copyImageToClipboard,
+  captureChartImage,
+  findChartSvg,
+  legendEntries,
+  svgToPngBlob,
+} from "./chartExport";
+import {
+  createConversationExport,
+  parseConversationExport,
+  toHtml,
+  toJson,
+  toMarkdown,
+  type ChartImages,
+  type ConversationExport,
+} from "./conversationExport";
+import {
+  getSeries,
+  transformChart,
+  type SortOrder,
+  type ValueFormat,
+} from "./charts";
+import {
+  addDataset,
+  addJoin,
+  carryOverDatasets,
+  createDataset,
+  datasetColumns,
+  describeJoin,
+  findDataset,
+  PRIMARY_DATASET_ID,
+  removeJoin,
+  renameDataset,
+  sessionDatasets,
+  sharedColumns,
+  uniqueDatasetName,
+} from "./datasets";
+import { downloadBlob, toFileName } from "./download";
+import { verifyMessage, type Verification } from "./verification";
+import { inferSchema } from "./schema";
+import {
+  isSessionExpired,
+  loadActiveSession,
+  loadSessions,
+  removeSession,
+  saveSession,
+  setActiveSessionId,
+  type StoredSession,
+} from "./sessionStore";
+import {
+  isCsvFile,
+  parseSpreadsheet,
+  readSheetRows,
+  type ParsedWorkbook,
+} from "./spreadsheet";
+import type { CellValue, Row } from "./csv";
+import {
+  applyGrid,
+  createGridState,
+  describeSelection,
+  moveColumn,
+  parseFilter,
+  toggleSort,
+  toRows,
+  visibleColumns,
+  type GridState,
+} from "./dataGrid";
+import type {
+  Calculations,
+  ChartData,
+  ChartType,
+  Dataset,
+  DatasetJoin,
+  Message,
+  SessionData,
+} from "./types";
+
+// VITE_CHAT_STREAMING=true muestra la respuesta token a token
+const STREAMING_ENABLED = import.meta.env.VITE_CHAT_STREAMING === "true";
+// Espera antes de persistir la sesión después del último cambio
+const SESSION_SAVE_DELAY_MS = 500;
+// Tiempo que se muestra el aviso de archivo subido
+const UPLOAD_TOAST_MS = 4000;
+
+const REPORT_FORMAT_LABELS: Record<ReportFormat, MessageKey> = {
+  docx: "report.formatDocx",
+  pdf: "report.formatPdf",
+  txt: "report.formatTxt",
+};
+
+const createMessageId = () => crypto.randomUUID();
+
+const WARNING_THRESHOLD_MS = 2 * 60 * 60 * 1000;
+const CRITICAL_THRESHOLD_MS = 15 * 60 * 1000;
+
+type ExpiryLevel = "ok" | "warning" | "critical" | "expired" | "unknown";
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+};
+
+const expiryLevelAt = (expiresAtMs: number, now: number): ExpiryLevel => {
+  if (Number.isNaN(expiresAtMs)) return "unknown";
+  const remainingMs = expiresAtMs - now;
+  return remainingMs <= 0
+    ? "expired"
+    : remainingMs <= CRITICAL_THRESHOLD_MS
+    ? "critical"
+    : remainingMs <= WARNING_THRESHOLD_MS
+    ? "warning"
+    : "ok";
+};
+
+// setTimeout desborda con esperas mayores a ~24,8 días
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Hook para el nivel de vencimiento de la sesión basado en expiresAt; solo
+// vuelve a renderizar al cruzar un umbral, no con cada segundo
+const useExpiryLevel = (expiresAt?: string) => {
+  const expiresAtMs = expiresAt ? new Date(expiresAt).getTime() : NaN;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (Number.isNaN(expiresAtMs)) return;
+    let timer: number | undefined;
+    const schedule = () => {
+      const current = Date.now();
+      setNow(current);
+      const next = [
+        expiresAtMs - WARNING_THRESHOLD_MS,
+        expiresAtMs - CRITICAL_THRESHOLD_MS,
+        expiresAtMs,
+      ].find((at) => at > current);
+      if (next === undefined) return;
+      timer = window.setTimeout(
+        schedule,
+        Math.min(next - current, MAX_TIMEOUT_MS)
+      );
+    };
+    schedule();
+    return () => window.clearTimeout(timer);
+  }, [expiresAtMs]);
+
+  return expiryLevelAt(expiresAtMs, now);
+};
+
+// Cuenta regresiva de la sesión; el intervalo de un segundo solo
+// re-renderiza este texto
+const SessionCountdown: React.FC<{
   expiresAt: string;
-  validFor: string;
-}
+  format?: (time: string) => string;
+}> = ({ expiresAt, format = (time) => time }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return <>{format(formatRemaining(new Date(expiresAt).getTime() - now))}</>;
+};
 
 // Hook para manejar API calls
 const useAPI = () => {
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
 
-  const apiCall = async (
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<ApiResponse> => {
+  const client = useApiClient();
+
+  const apiCall = async <T,>(
+    request: (client: ApiClient) => Promise<T>
+  ): Promise<T> => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        headers:
-          options.body instanceof FormData
-            ? {}
-            : { "Content-Type": "application/json" },
-        ...options,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Error en la solicitud");
-      }
-
-      const data = await response.json();
+      const data = await request(client);
       setLoading(false);
       return data;
     } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Error desconocido";
-      setError(errorMessage);
+      // Una cancelación del usuario no es un error
+      if (!isAbortError(err)) setError(err);
       setLoading(false);
       throw err;
     }
@@ -134,87 +324,132 @@ const useAPI = () => {
   return { apiCall, loading, error, clearError: () => setError(null) };
 };
 
-// Componente para mostrar gráficas con opción de ampliar
-const ChartDisplay: React.FC<{
+type ChartExportFormat = "png" | "svg" | "copy" | "csv" | "xlsx";
+
+// Menú de exportación de una gráfica (imagen y datos)
+const ChartExportMenu: React.FC<{
   chartData: ChartData;
-  onExpand: (data: ChartData) => void;
-}> = ({ chartData, onExpand }) => {
-  if (!chartData) return null;
+  getContainer: () => HTMLElement | null;
+}> = ({ chartData, getContainer }) => {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
 
-  const data = chartData.labels.map((label, index) => ({
-    name: label,
-    value: chartData.data[index],
-  }));
-
-  const renderChart = (size: "small" | "large" = "small") => {
-    const height = size === "large" ? 400 : 200;
-
-    switch (chartData.type) {
-      case "bar":
-        return (
-          <ResponsiveContainer width="100%" height={height}>
-            <BarChart
-              data={data}
-              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" angle={-45} textAnchor="end" height={60} />
-              <YAxis />
-              <Tooltip />
-              <Bar dataKey="value" fill="#8884d8" />
-            </BarChart>
-          </ResponsiveContainer>
-        );
-      case "pie":
-        return (
-          <ResponsiveContainer width="100%" height={height}>
-            <PieChart>
-              <Pie
-                data={data}
-                cx="50%"
-                cy="50%"
-                outerRadius={size === "large" ? 120 : 60}
-                fill="#8884d8"
-                dataKey="value"
-              >
-                {data.map((_, index) => (
-                  <Cell
-                    key={`cell-${index}`}
-                    fill={COLORS[index % COLORS.length]}
-                  />
-                ))}
-              </Pie>
-              <Tooltip />
-            </PieChart>
-          </ResponsiveContainer>
-        );
-      case "line":
-        return (
-          <ResponsiveContainer width="100%" height={height}>
-            <LineChart
-              data={data}
-              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" />
-              <YAxis />
-              <Tooltip />
-              <Line
-                type="monotone"
-                dataKey="value"
-                stroke="#8884d8"
-                strokeWidth={2}
-              />
-            </LineChart>
-          </ResponsiveContainer>
-        );
-      default:
-        return (
-          <div className="text-gray-500">Tipo de gráfica no soportado</div>
+  // Se cierra al hacer clic fuera del menú o con Escape
+  useEffect(() => {
+    if (!open) return;
+    const handlePointer = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointer);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointer);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [open]);
+
+  const handleExport = async (format: ChartExportFormat) => {
+    setOpen(false);
+    try {
+      if (format === "csv" || format === "xlsx") {
+        const blob =
+          format === "csv"
+            ? chartToCsvBlob(chartData)
+            : chartToXlsxBlob(chartData);
+        downloadBlob(blob, toFileName(chartData.title, format));
+        return;
+      }
+
+      const svg = findChartSvg(getContainer());
+      if (!svg) {
+        setStatus(t("chart.notRendered"));
+        return;
+      }
+      const { markup, width, height } = buildExportSvg(
+        svg,
+        chartData.title,
+        legendEntries(chartData)
+      );
+
+      if (format === "svg") {
+        downloadBlob(
+          new Blob([markup], { type: "image/svg+xml;charset=utf-8" }),
+          toFileName(chartData.title, "svg")
         );
+        return;
+      }
+
+      const png = await svgToPngBlob(markup, width, height);
+      if (format === "png") {
+        downloadBlob(png, toFileName(chartData.title, "png"));
+      } else if (!canCopyImages()) {
+        setStatus(t("chart.clipboardUnsupported"));
+      } else {
+        await copyImageToClipboard(png);
+        setStatus(t("chart.copied"));
+      }
+    } catch (err) {
+      console.error("Chart export error:", err);
+      setStatus(t("chart.exportFailed"));
     }
   };
 
+  useEffect(() => {
+    if (!status) return;
+    const timer = window.setTimeout(() => setStatus(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [status]);
+
+  return (
+    <div className="chart-export" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="expand-btn"
+        title={t("chart.export")}
+      >
+        <Download size={16} />
+      </button>
+      {open && (
+        <div className="chart-export-menu">
+          <button onClick={() => handleExport("png")}>
+            <ImageIcon size={14} /> {t("chart.downloadPng")}
+          </button>
+          <button onClick={() => handleExport("svg")}>
+            <ImageIcon size={14} /> {t("chart.downloadSvg")}
+          </button>
+          <button onClick={() => handleExport("copy")}>
+            <Copy size={14} /> {t("chart.copyImage")}
+          </button>
+          <button onClick={() => handleExport("csv")}>
+            <FileText size={14} /> {t("chart.dataCsv")}
+          </button>
+          <button onClick={() => handleExport("xlsx")}>
+            <FileSpreadsheet size={14} /> {t("chart.dataXlsx")}
+          </button>
+        </div>
+      )}
+      {status && <div className="chart-export-status">{status}</div>}
+    </div>
+  );
+};
+
+// Componente para mostrar gráficas con opción de ampliar
+const ChartDisplay: React.FC<{
+  chartData: ChartData;
+  onExpand: (data: ChartData) => void;
+  pinned?: boolean;
+  onPin?: () => void;
+}> = ({ chartData, onExpand, pinned, onPin }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
+
+  if (!chartData) return null;
+
   return (
     <div className="chart-container">
       <div className="chart-header">
@@ -226,99 +461,72 @@ const ChartDisplay: React.FC<{
           )}
           {chartData.title}
         </h4>
-        <button
-          onClick={() => onExpand(chartData)}
-          className="expand-btn"
-          title="Ampliar gráfica"
-        >
-          <Maximize2 size={16} />
-        </button>
+        <div className="chart-actions">
+          <ChartExportMenu
+            chartData={chartData}
+            getContainer={() => chartRef.current}
+          />
+          {onPin && (
+            <button
+              onClick={onPin}
+              className={`expand-btn pin-btn ${pinned ? "pinned" : ""}`}
+              title={pinned ? t("chart.unpin") : t("chart.pin")}
+            >
+              {pinned ? <PinOff size={16} /> : <Pin size={16} />}
+            </button>
+          )}
+          <button
+            onClick={() => onExpand(chartData)}
+            className="expand-btn"
+            title={t("chart.expand")}
+          >
+            <Maximize2 size={16} />
+          </button>
+        </div>
+      </div>
+      <div ref={chartRef}>
+        <ChartRenderer chartData={chartData} height={200} />
       </div>
-      {renderChart("small")}
     </div>
   );
 };
 
+const SWITCHABLE_TYPES: ChartType[] = ["bar", "line", "area", "pie"];
+const CHART_TYPE_LABELS: Record<ChartType, MessageKey> = {
+  bar: "chart.type.bar",
+  line: "chart.type.line",
+  area: "chart.type.area",
+  pie: "chart.type.pie",
+  scatter: "chart.type.scatter",
+  combo: "chart.type.combo",
+};
+const TOP_N_OPTIONS = [0, 5, 10, 20];
+
 // Modal para ampliar gráficas
 const ChartModal: React.FC<{
-  chartData: ChartData | null;
+  chartData: ChartData;
   onClose: () => void;
 }> = ({ chartData, onClose }) => {
-  if (!chartData) return null;
-
-  const data = chartData.labels.map((label, index) => ({
-    name: label,
-    value: chartData.data[index],
-  }));
-
-  const renderChart = () => {
-    switch (chartData.type) {
-      case "bar":
-        return (
-          <ResponsiveContainer width="100%" height={500}>
-            <BarChart
-              data={data}
-              margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
-              <YAxis />
-              <Tooltip />
-              <Legend />
-              <Bar dataKey="value" fill="#8884d8" />
-            </BarChart>
-          </ResponsiveContainer>
-        );
-      case "pie":
-        return (
-          <ResponsiveContainer width="100%" height={500}>
-            <PieChart>
-              <Pie
-                data={data}
-                cx="50%"
-                cy="50%"
-                outerRadius={180}
-                fill="#8884d8"
-                dataKey="value"
-              >
-                {data.map((_, index) => (
-                  <Cell
-                    key={`cell-${index}`}
-                    fill={COLORS[index % COLORS.length]}
-                  />
-                ))}
-              </Pie>
-              <Tooltip />
-              <Legend />
-            </PieChart>
-          </ResponsiveContainer>
-        );
-      case "line":
-        return (
-          <ResponsiveContainer width="100%" height={500}>
-            <LineChart
-              data={data}
-              margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" />
-              <YAxis />
-              <Tooltip />
-              <Legend />
-              <Line
-                type="monotone"
-                dataKey="value"
-                stroke="#8884d8"
-                strokeWidth={3}
-              />
-            </LineChart>
-          </ResponsiveContainer>
-        );
-      default:
-        return <div>Tipo de gráfica no soportado</div>;
-    }
+  const [viewType, setViewType] = useState<ChartType>(chartData.type);
+  const [sort, setSort] = useState<SortOrder>("none");
+  const [topN, setTopN] = useState(0);
+  const [valueFormat, setValueFormat] = useState<ValueFormat>("auto");
+  const chartRef = useRef<HTMLDivElement>(null);
+  const view: ChartData = {
+    ...transformChart(chartData, { sort, topN: topN || undefined }),
+    type: viewType,
   };
 
+  // El tipo original (combo, scatter) siempre se puede recuperar
+  const typeOptions = SWITCHABLE_TYPES.includes(chartData.type)
+    ? SWITCHABLE_TYPES
+    : [chartData.type, ...SWITCHABLE_TYPES];
+  const canSwitch = chartData.type !== "scatter";
+  // La torta dibuja una sola serie: con varias se perderían las demás
+  const seriesCount = getSeries(chartData).length;
+  const canPie = seriesCount <= 1;
+  const { t } = useI18n();
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -327,20 +535,123 @@ const ChartModal: React.FC<{
             <TrendingUp size={20} />
             {chartData.title}
           </h2>
-          <button onClick={onClose} className="modal-close">
-            <X size={20} />
-          </button>
+          <div className="chart-actions">
+            <ChartExportMenu
+              chartData={view}
+              getContainer={() => chartRef.current}
+            />
+            <button onClick={onClose} className="modal-close">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        {canSwitch && (
+          <div className="chart-toolbar">
+            <div className="chart-type-switch">
+              {typeOptions.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setViewType(type)}
+                  className={viewType === type ? "active" : ""}
+                  disabled={type === "pie" && !canPie}
+                  title={
+                    type === "pie" && !canPie
+                      ? t("chart.pieSingleSeries", { count: seriesCount })
+                      : undefined
+                  }
+                >
+                  {t(CHART_TYPE_LABELS[type])}
+                </button>
+              ))}
+            </div>
+            <label>
+              {t("chart.sort")}
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as SortOrder)}
+              >
+                <option value="none">{t("chart.sortNone")}</option>
+                <option value="desc">{t("chart.sortDesc")}</option>
+                <option value="asc">{t("chart.sortAsc")}</option>
+              </select>
+            </label>
+            <label>
+              {t("chart.show")}
+              <select
+                value={topN}
+                onChange={(e) => setTopN(Number(e.target.value))}
+              >
+                {TOP_N_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n === 0
+                      ? t("chart.showAll")
+                      : t("chart.showTop", { count: n })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t("chart.format")}
+              <select
+                value={valueFormat}
+                onChange={(e) => setValueFormat(e.target.value as ValueFormat)}
+              >
+                <option value="auto">{t("chart.formatAuto")}</option>
+                <option value="number">{t("chart.formatNumber")}</option>
+                <option value="currency">{t("chart.formatCurrency")}</option>
+                <option value="percent">{t("chart.formatPercent")}</option>
+                <option value="thousands">{t("chart.formatThousands")}</option>
+              </select>
+            </label>
+          </div>
+        )}
+        <div className="modal-body" ref={chartRef}>
+          <ChartRenderer
+            chartData={view}
+            height={500}
+            showLegend
+            strokeWidth={3}
+            outerRadius={180}
+            valueFormat={valueFormat}
+          />
         </div>
-        <div className="modal-body">{renderChart()}</div>
       </div>
     </div>
   );
 };
 
+// Selector de idioma de la interfaz
+const LanguageSwitcher: React.FC<{
+  onChange: (language: Language) => void;
+}> = ({ onChange }) => {
+  const { language, t } = useI18n();
+
+  return (
+    <div
+      className="language-switcher"
+      role="group"
+      aria-label={t("language.label")}
+    >
+      {LANGUAGE_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={option.value === language ? "active" : ""}
+          aria-pressed={option.value === language}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 // Componente Landing Page
-const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
-  onGetStarted,
-}) => {
+const LandingPage: React.FC<{
+  onGetStarted: () => void;
+  onLanguageChange: (language: Language) => void;
+}> = ({ onGetStarted, onLanguageChange }) => {
+  const { t } = useI18n();
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
 
   useEffect(() => {
@@ -354,47 +665,47 @@ const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
   const features = [
     {
       icon: <Brain size={32} />,
-      title: "AI-Powered Analysis",
-      description:
-        "Advanced artificial intelligence analyzes your financial data and provides intelligent insights in real-time.",
+      title: t("landing.feature.ai.title"),
+      description: t("landing.feature.ai.description"),
     },
     {
       icon: <Zap size={32} />,
-      title: "Instant Insights",
-      description:
-        "Get immediate answers to complex questions about your portfolio, risk assessment, and performance metrics.",
+      title: t("landing.feature.insights.title"),
+      description: t("landing.feature.insights.description"),
     },
     {
       icon: <BarChart3 size={32} />,
-      title: "Dynamic Visualizations",
-      description:
-        "Beautiful, interactive charts and graphs that adapt to your questions and reveal hidden patterns.",
+      title: t("landing.feature.charts.title"),
+      description: t("landing.feature.charts.description"),
     },
     {
       icon: <Shield size={32} />,
-      title: "Secure & Private",
-      description:
-        "Your data stays safe with 2-day sessions, no permanent storage, and enterprise-grade security.",
+      title: t("landing.feature.security.title"),
+      description: t("landing.feature.security.description"),
     },
   ];
 
   const stats = [
     {
       number: "10x",
-      label: "Faster Analysis",
-      description: "Compare to manual Excel analysis",
+      label: t("landing.stat.speed.label"),
+      description: t("landing.stat.speed.description"),
     },
     {
       number: "99%",
-      label: "Accuracy Rate",
-      description: "AI-powered data interpretation",
+      label: t("landing.stat.accuracy.label"),
+      description: t("landing.stat.accuracy.description"),
     },
     {
       number: "2min",
-      label: "Setup Time",
-      description: "From upload to insights",
+      label: t("landing.stat.setup.label"),
+      description: t("landing.stat.setup.description"),
+    },
+    {
+      number: "24/7",
+      label: t("landing.stat.availability.label"),
+      description: t("landing.stat.availability.description"),
     },
-    { number: "24/7", label: "Available", description: "Analyze data anytime" },
   ];
 
   return (
@@ -424,9 +735,12 @@ const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
               </div>
               <span className="logo-text">Excel AI</span>
             </div>
-            <button onClick={onGetStarted} className="nav-cta">
-              Get Started
-            </button>
+            <div className="nav-actions">
+              <LanguageSwitcher onChange={onLanguageChange} />
+              <button onClick={onGetStarted} className="nav-cta">
+                {t("landing.getStarted")}
+              </button>
+            </div>
           </div>
         </div>
       </nav>
@@ -436,26 +750,24 @@ const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
         <div className="container">
           <div className="hero-content">
             <h1 className="hero-title">
-              Analyze Your
-              <span className="hero-highlight"> Data </span>
+              {t("landing.heroTitleStart")}
+              <span className="hero-highlight">
+                {t("landing.heroTitleHighlight")}
+              </span>
               <br />
-              Like Never Before
+              {t("landing.heroTitleEnd")}
             </h1>
-            <p className="hero-subtitle">
-              Transform your Excel files into intelligent conversations. Ask
-              questions, get instant insights, and generate professional reports
-              with the power of AI.
-            </p>
+            <p className="hero-subtitle">{t("landing.heroSubtitle")}</p>
 
             <div className="hero-buttons">
               <button onClick={onGetStarted} className="btn-primary">
                 <Sparkles size={24} />
-                Start Analyzing
+                {t("landing.startAnalyzing")}
                 <ArrowRight size={20} />
               </button>
               <button className="btn-secondary">
                 <Play size={20} />
-                Watch Demo
+                {t("landing.watchDemo")}
               </button>
             </div>
           </div>
@@ -477,11 +789,8 @@ const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
       <section className="features-section">
         <div className="container">
           <div className="features-header">
-            <h2 className="features-title">Powerful Features</h2>
-            <p className="features-subtitle">
-              Everything you need to transform your data into actionable
-              intelligence
-            </p>
+            <h2 className="features-title">{t("landing.featuresTitle")}</h2>
+            <p className="features-subtitle">{t("landing.featuresSubtitle")}</p>
           </div>
 
           <div className="features-grid">
@@ -501,23 +810,20 @@ const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
         <div className="container">
           <div className="cta-content">
             <h2 className="cta-title">
-              Ready to Transform Your
-              <span className="cta-highlight"> Analysis?</span>
+              {t("landing.ctaTitleStart")}
+              <span className="cta-highlight">
+                {t("landing.ctaTitleHighlight")}
+              </span>
             </h2>
-            <p className="cta-subtitle">
-              Join thousands of analysts who've revolutionized their data
-              workflows with AI-powered insights.
-            </p>
+            <p className="cta-subtitle">{t("landing.ctaSubtitle")}</p>
 
             <button onClick={onGetStarted} className="cta-button">
               <Sparkles size={24} />
-              Start Your Free Analysis
+              {t("landing.ctaButton")}
               <ArrowRight size={24} />
             </button>
 
-            <p className="cta-note">
-              No signup required • 2-day free sessions • Enterprise ready
-            </p>
+            <p className="cta-note">{t("landing.ctaNote")}</p>
           </div>
         </div>
       </section>
@@ -533,177 +839,1480 @@ const LandingPage: React.FC<{ onGetStarted: () => void }> = ({
   );
 };
 
+const PREVIEW_PAGE_SIZE = 10;
+
+// Vista previa del archivo parseado en el navegador antes de subirlo
+const FilePreview: React.FC<{
+  workbook: ParsedWorkbook;
+  sheetIndex: number;
+  onSheetChange: (index: number) => void;
+  // Sin `onQuestionChange` no se ofrece pregunta inicial (archivos en cola)
+  question?: string;
+  onQuestionChange?: (question: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}> = ({
+  workbook,
+  sheetIndex,
+  onSheetChange,
+  question,
+  onQuestionChange,
+  onConfirm,
+  onCancel,
+}) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const [page, setPage] = useState(0);
+  const sheet = workbook.sheets[sheetIndex];
+  const totalPages = Math.max(
+    1,
+    Math.ceil(sheet.rows.length / PREVIEW_PAGE_SIZE)
+  );
+  const pageRows = sheet.rows.slice(
+    page * PREVIEW_PAGE_SIZE,
+    (page + 1) * PREVIEW_PAGE_SIZE
+  );
+
+  return (
+    <div className="file-preview">
+      <div className="file-preview-header">
+        <div>
+          <h3 className="file-preview-title">
+            <FileText size={20} />
+            {workbook.fileName}
+          </h3>
+          <p className="file-preview-summary">
+            {t("preview.summary", {
+              rows: formatter.count(sheet.rows.length),
+              columns: sheet.columns.length,
+            })}
+          </p>
+        </div>
+        {workbook.sheets.length > 1 && (
+          <label className="sheet-picker">
+            {t("preview.sheet")}
+            <select
+              value={sheetIndex}
+              onChange={(e) => {
+                setPage(0);
+                onSheetChange(Number(e.target.value));
+              }}
+            >
+              {workbook.sheets.map((s, index) => (
+                <option key={s.name} value={index}>
+                  {t("preview.sheetOption", {
+                    name: s.name,
+                    rows: formatter.count(s.rows.length),
+                  })}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="file-preview-table-wrapper">
+        <table className="file-preview-table">
+          <thead>
+            <tr>
+              {sheet.columns.map((col) => (
+                <th key={col}>
+                  <span className="col-name">{col}</span>
+                  <span className="col-type">{sheet.columnTypes[col]}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {sheet.columns.map((col) => (
+                  <td key={col}>{row[col] ?? ""}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="file-preview-pagination">
+        <button onClick={() => setPage(page - 1)} disabled={page === 0}>
+          {t("preview.previous")}
+        </button>
+        <span>{t("preview.page", { page: page + 1, total: totalPages })}</span>
+        <button
+          onClick={() => setPage(page + 1)}
+          disabled={page >= totalPages - 1}
+        >
+          {t("preview.next")}
+        </button>
+      </div>
+
+      {onQuestionChange && (
+        <input
+          type="text"
+          placeholder={t("upload.questionPlaceholder")}
+          value={question}
+          onChange={(e) => onQuestionChange(e.target.value)}
+          className="question-input"
+        />
+      )}
+
+      <div className="file-preview-actions">
+        <button onClick={onCancel} className="file-preview-cancel">
+          {t("preview.cancel")}
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={sheet.rows.length === 0}
+          className="file-preview-confirm"
+        >
+          <Upload size={16} />
+          {t("preview.confirm")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Barra de avance de una subida
+const UploadProgressBar: React.FC<{ progress: UploadProgress }> = ({
+  progress,
+}) => {
+  const { t } = useI18n();
+  const percent = Math.round(
+    (progress.loaded / Math.max(progress.total, 1)) * 100
+  );
+
+  return (
+    <div className="upload-progress">
+      <div className="upload-progress-bar">
+        <div
+          className="upload-progress-fill"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="upload-progress-text">
+        {t(progress.chunked ? "upload.progressChunked" : "upload.progress", {
+          loaded: formatFileSize(progress.loaded),
+          total: formatFileSize(progress.total),
+          percent,
+        })}
+      </span>
+      {progress.resumed && (
+        <span className="upload-progress-note">{t("upload.resumed")}</span>
+      )}
+    </div>
+  );
+};
+
 // Componente para upload de archivos
 const FileUpload: React.FC<{
-  onFileUploaded: (data: ApiResponse) => void;
+  // `extra` son los demás archivos elegidos: se agregan a la sesión ya abierta
+  onFileUploaded: (primary: UploadedFile, extra: SelectedFile[]) => void;
   disabled: boolean;
 }> = ({ onFileUploaded, disabled }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
   const [initialQuestion, setInitialQuestion] = useState("");
+  const [pendingFile, setPendingFile] = useState<{
+    file: File;
+    workbook: ParsedWorkbook;
+  } | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  // Archivos después del primero: cada uno pasa por su vista previa y luego
+  // se suben a la misma sesión
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
+  const [confirmedFiles, setConfirmedFiles] = useState<SelectedFile[]>([]);
+  const uploadControllerRef = useRef<AbortController | null>(null);
   const { apiCall, loading, error } = useAPI();
+  const { language, t } = useI18n();
 
-  const handleUpload = async (file: File, question = "") => {
-    const formData = new FormData();
-    formData.append("file", file);
-    if (question.trim()) {
-      formData.append("question", question.trim());
-    }
+  // Solo el primero abre la sesión aquí; si otro falla después, la sesión
+  // ya está abierta y se puede volver a agregar desde Datasets
+  const handleUpload = async (
+    primary: SelectedFile,
+    question: string,
+    extra: SelectedFile[]
+  ) => {
+    const controller = new AbortController();
+    uploadControllerRef.current = controller;
 
     try {
-      const result = await apiCall("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
-      onFileUploaded(result);
+      const result = await apiCall((client) =>
+        uploadFile(client, primary.file, {
+          question,
+          sheet: primary.sheet,
+          language,
+          signal: controller.signal,
+          onProgress: setProgress,
+        })
+      );
+      onFileUploaded({ ...primary, result }, extra);
       setInitialQuestion("");
+      setPendingFile(null);
+      setConfirmedFiles([]);
     } catch (err) {
-      console.error("Upload error:", err);
+      if (!isAbortError(err)) console.error("Upload error:", err);
+    } finally {
+      uploadControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const clearSelection = () => {
+    setPendingFile(null);
+    setQueuedFiles([]);
+    setConfirmedFiles([]);
+  };
+
+  // El primero pasa por la vista previa; los demás esperan en la cola
+  const handleFiles = (files: File[]) => {
+    setParseError(null);
+    for (const file of files) {
+      const invalid = validateUploadFile(file);
+      if (invalid) {
+        setParseError(
+          files.length > 1
+            ? `${file.name}: ${t(invalid.error, invalid.params)}`
+            : t(invalid.error, invalid.params)
+        );
+        return;
+      }
+    }
+    if (files.length === 0) return;
+    setQueuedFiles(files.slice(1));
+    setConfirmedFiles([]);
+    handleFile(files[0], files.slice(1), []);
+  };
+
+  // Parsear en el navegador para detectar problemas antes de subir. La cola
+  // llega por parámetro: el estado todavía no refleja el paso anterior. Un
+  // archivo que no se puede leer se informa y se salta; el resto sigue
+  const handleFile = async (
+    file: File,
+    queue: File[],
+    confirmed: SelectedFile[]
+  ) => {
+    setPendingFile(null);
+    setParsing(true);
+    let workbook: ParsedWorkbook | null = null;
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.sheets.length === 0) {
+        throw new Error(t("upload.noSheets"));
+      }
+      workbook = parsed;
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : t("upload.readError");
+      const described =
+        queue.length + confirmed.length > 0
+          ? `${file.name}: ${message}`
+          : message;
+      setParseError((prev) => (prev ? `${prev} ${described}` : described));
+    } finally {
+      setParsing(false);
+    }
+
+    if (workbook) {
+      setSheetIndex(0);
+      setPendingFile({ file, workbook });
+    } else if (queue.length > 0) {
+      setQueuedFiles(queue.slice(1));
+      handleFile(queue[0], queue.slice(1), confirmed);
+    } else if (confirmed.length > 0) {
+      // Era el último: se suben los que ya se confirmaron
+      const [primary, ...extra] = confirmed;
+      handleUpload(primary, initialQuestion, extra);
+    }
+  };
+
+  // Confirmar pasa al siguiente archivo de la cola; con el último se sube
+  const handleConfirm = () => {
+    if (!pendingFile) return;
+    const { file, workbook } = pendingFile;
+    const sheet = workbook.sheets[sheetIndex];
+    const selected = [
+      ...confirmedFiles,
+      {
+        file,
+        sheet: isCsvFile(file) ? undefined : sheet.name,
+        rows: sheet.rows,
+      },
+    ];
+    if (queuedFiles.length > 0) {
+      setConfirmedFiles(selected);
+      setQueuedFiles(queuedFiles.slice(1));
+      handleFile(queuedFiles[0], queuedFiles.slice(1), selected);
+      return;
     }
+    const [primary, ...extra] = selected;
+    handleUpload(primary, initialQuestion, extra);
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragActive(false);
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      handleUpload(files[0], initialQuestion);
-    }
+    handleFiles([...e.dataTransfer.files]);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      handleUpload(files[0], initialQuestion);
-    }
+    handleFiles([...(e.target.files ?? [])]);
+    e.target.value = "";
   };
 
+  const busy = loading || parsing;
+  // Con todos los bytes enviados queda el procesamiento en el servidor
+  const sending = progress !== null && progress.loaded < progress.total;
+
   return (
     <div className="file-upload-container">
-      <div
-        className={`file-upload-area ${dragActive ? "drag-active" : ""} ${
-          disabled ? "disabled" : ""
-        } ${loading ? "loading" : ""}`}
-        onDragEnter={(e) => {
-          e.preventDefault();
-          setDragActive(true);
-        }}
-        onDragLeave={(e) => {
-          e.preventDefault();
-          setDragActive(false);
-        }}
-        onDragOver={(e) => e.preventDefault()}
-        onDrop={handleDrop}
-        onClick={() => !disabled && !loading && fileInputRef.current?.click()}
-      >
-        <div className="upload-icon-container">
-          <Upload size={64} className={loading ? "animate-bounce" : ""} />
-          {loading && <div className="upload-spinner" />}
-        </div>
-
-        <h3 className="upload-title">
-          {loading ? "Processing your file..." : "Upload Excel or CSV"}
-        </h3>
-        <p className="upload-subtitle">
-          {loading
-            ? "Analyzing data with AI..."
-            : "Drag and drop or click to select your financial data"}
-        </p>
+      {pendingFile && !loading ? (
+        <>
+          {confirmedFiles.length + queuedFiles.length > 0 && (
+            <p className="upload-queue">
+              {t("upload.fileOf", {
+                index: confirmedFiles.length + 1,
+                count: confirmedFiles.length + queuedFiles.length + 1,
+                name: pendingFile.file.name,
+              })}
+            </p>
+          )}
+          <FilePreview
+            workbook={pendingFile.workbook}
+            sheetIndex={sheetIndex}
+            onSheetChange={setSheetIndex}
+            question={initialQuestion}
+            onQuestionChange={
+              confirmedFiles.length === 0 ? setInitialQuestion : undefined
+            }
+            onConfirm={handleConfirm}
+            onCancel={clearSelection}
+          />
+          {queuedFiles.length > 0 && (
+            <p className="upload-queue">
+              {t("datasets.queued", {
+                count: queuedFiles.length,
+                names: queuedFiles.map((f) => f.name).join(", "),
+              })}
+            </p>
+          )}
+        </>
+      ) : (
+        <div
+          className={`file-upload-area ${dragActive ? "drag-active" : ""} ${
+            disabled ? "disabled" : ""
+          } ${busy ? "loading" : ""}`}
+          onDragEnter={(e) => {
+            e.preventDefault();
+            setDragActive(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setDragActive(false);
+          }}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+          onClick={() => !disabled && !busy && fileInputRef.current?.click()}
+        >
+          <div className="upload-icon-container">
+            <Upload size={64} className={busy ? "animate-bounce" : ""} />
+            {busy && <div className="upload-spinner" />}
+          </div>
 
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".xlsx,.xls,.csv"
-          onChange={handleFileSelect}
-          style={{ display: "none" }}
-          disabled={disabled || loading}
-        />
+          <h3 className="upload-title">
+            {loading
+              ? t("upload.processing")
+              : parsing
+              ? t("upload.reading")
+              : t("upload.title")}
+          </h3>
+          <p className="upload-subtitle">
+            {loading ? t("upload.analyzing") : t("upload.hint")}
+          </p>
 
-        <div className="upload-question">
           <input
-            type="text"
-            placeholder="Ask an initial question about your data..."
-            value={initialQuestion}
-            onChange={(e) => setInitialQuestion(e.target.value)}
-            disabled={loading}
-            className="question-input"
+            ref={fileInputRef}
+            type="file"
+            accept={UPLOAD_EXTENSIONS.join(",")}
+            multiple
+            onChange={handleFileSelect}
+            style={{ display: "none" }}
+            disabled={disabled || busy}
           />
 
-          {loading && (
-            <div className="loading-dots">
-              <div className="dot dot-1" />
-              <div className="dot dot-2" />
-              <div className="dot dot-3" />
-              <span>Analyzing with AI...</span>
-            </div>
-          )}
+          <div className="upload-question">
+            <input
+              type="text"
+              placeholder={t("upload.questionPlaceholder")}
+              value={initialQuestion}
+              onChange={(e) => setInitialQuestion(e.target.value)}
+              disabled={loading}
+              className="question-input"
+            />
+
+            {progress && sending && <UploadProgressBar progress={progress} />}
+
+            {loading && !sending && (
+              <div className="loading-dots">
+                <div className="dot dot-1" />
+                <div className="dot dot-2" />
+                <div className="dot dot-3" />
+                <span>{t("upload.analyzingShort")}</span>
+              </div>
+            )}
+
+            {loading && (
+              <button
+                onClick={(e) => {
+                  // El área abre el selector de archivos al hacer clic
+                  e.stopPropagation();
+                  uploadControllerRef.current?.abort();
+                }}
+                className="upload-cancel"
+              >
+                <X size={16} />
+                {t("upload.cancel")}
+              </button>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
-      {error && (
+      {(error || parseError) && (
         <div className="error-message">
           <AlertCircle size={20} />
-          <span>{error}</span>
+          <span>{error ? describeError(error, t).message : parseError}</span>
         </div>
       )}
     </div>
   );
 };
 
-// Componente para mostrar métricas
-const MetricsDisplay: React.FC<{ calculations: any }> = ({ calculations }) => {
-  if (!calculations) return null;
+const formatSchemaValue = (value: number | string) =>
+  typeof value === "number" ? value.toLocaleString() : value;
+
+// Biblioteca de preguntas: sugeridas según el esquema y guardadas por el usuario
+const PromptLibraryPanel: React.FC<{
+  columns: string[];
+  sampleData: Record<string, unknown>[];
+  currentQuestion: string;
+  onUsePrompt: (text: string) => void;
+}> = ({ columns, sampleData, currentQuestion, onUsePrompt }) => {
+  const { t } = useI18n();
+  const [prompts, setPrompts] = useState(loadPrompts);
+  const [category, setCategory] = useState("");
+  const [draft, setDraft] = useState<{ text: string; category: string } | null>(
+    null
+  );
+  const [pending, setPending] = useState<{
+    text: string;
+    values: Record<string, string | undefined>;
+  } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const schema = useMemo(
+    () => inferSchema(columns, sampleData),
+    [columns, sampleData]
+  );
+  const suggestions = useMemo(() => suggestPrompts(schema, t), [schema, t]);
+  const categories = promptCategories(prompts);
+  const visible = prompts.filter((p) => !category || p.category === category);
+
+  useEffect(() => {
+    savePrompts(prompts);
+  }, [prompts]);
+
+  const addPrompt = (text: string, promptCategory: string) => {
+    if (!text.trim()) return;
+    setPrompts((prev) =>
+      mergePrompts(prev, [
+        createPrompt(text, promptCategory || t("prompts.defaultCategory")),
+      ])
+    );
+  };
+
+  const handleSelectPrompt = (text: string) => {
+    if (templatePlaceholders(text).length === 0) {
+      onUsePrompt(text);
+      return;
+    }
+    setPending({ text, values: resolvePlaceholders(text, schema) });
+  };
 
-  const formatNumber = (num: number) => {
-    if (num >= 1000000) return `$${(num / 1000000).toFixed(1)}M`;
-    if (num >= 1000) return `$${(num / 1000).toFixed(1)}K`;
-    return `$${num.toFixed(0)}`;
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parsePromptExport(await file.text(), t);
+      setPrompts((prev) => mergePrompts(prev, imported));
+      setNotice(t("prompts.imported", { count: imported.length }));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : String(err));
+    }
   };
 
   return (
-    <div className="metrics-grid">
-      {calculations.totalRegistros && (
-        <div className="metric-card metric-blue">
-          <div className="metric-number">
-            {calculations.totalRegistros.toLocaleString()}
+    <div className="sidebar-section prompt-library">
+      <h3 className="sidebar-title">
+        <Zap size={20} />
+        {t("sidebar.quickAnalysis")}
+      </h3>
+
+      {suggestions.length > 0 && (
+        <>
+          <div className="prompt-group-title">{t("prompts.suggested")}</div>
+          <div className="quick-actions">
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.text} className="prompt-row">
+                <button
+                  onClick={() => onUsePrompt(suggestion.text)}
+                  className="quick-action-btn"
+                >
+                  <span className="action-icon">{suggestion.icon}</span>
+                  <span className="action-text">{suggestion.text}</span>
+                </button>
+                <button
+                  onClick={() =>
+                    addPrompt(suggestion.text, t("prompts.suggestedCategory"))
+                  }
+                  className="prompt-icon-btn"
+                  title={t("prompts.saveSuggestion")}
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+            ))}
           </div>
-          <div className="metric-label">Total Credits</div>
+        </>
+      )}
+
+      <div className="prompt-group-title">
+        {t("prompts.saved")}
+        {categories.length > 1 && (
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="prompt-category-filter"
+          >
+            <option value="">{t("prompts.allCategories")}</option>
+            {categories.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {visible.length === 0 ? (
+        <p className="prompt-empty">{t("prompts.empty")}</p>
+      ) : (
+        <div className="quick-actions">
+          {visible.map((prompt) => (
+            <div key={prompt.id} className="prompt-row">
+              <button
+                onClick={() => handleSelectPrompt(prompt.text)}
+                className="quick-action-btn"
+              >
+                <span className="prompt-category">{prompt.category}</span>
+                <span className="action-text">{prompt.text}</span>
+              </button>
+              <button
+                onClick={() =>
+                  setPrompts((prev) => prev.filter((p) => p.id !== prompt.id))
+                }
+                className="prompt-icon-btn"
+                title={t("prompts.delete")}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
         </div>
       )}
-      {calculations.montoTotalUSD && (
-        <div className="metric-card metric-green">
-          <div className="metric-number">
-            {formatNumber(calculations.montoTotalUSD)}
+
+      {pending && (
+        <div className="prompt-form">
+          <div className="prompt-group-title">{t("prompts.fillTitle")}</div>
+          {Object.entries(pending.values).map(([name, value]) => (
+            <label key={name} className="prompt-placeholder">
+              <span>{`{${name}}`}</span>
+              <select
+                value={value ?? ""}
+                onChange={(e) =>
+                  setPending({
+                    ...pending,
+                    values: {
+                      ...pending.values,
+                      [name]: e.target.value || undefined,
+                    },
+                  })
+                }
+              >
+                <option value="">{t("prompts.pickColumn")}</option>
+                {columns.map((col) => (
+                  <option key={col} value={col}>
+                    {col}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <div className="prompt-form-actions">
+            <button
+              onClick={() => setPending(null)}
+              className="file-preview-cancel"
+            >
+              {t("prompts.cancel")}
+            </button>
+            <button
+              onClick={() => {
+                onUsePrompt(fillTemplate(pending.text, pending.values));
+                setPending(null);
+              }}
+              disabled={Object.values(pending.values).some((v) => !v)}
+              className="file-preview-confirm"
+            >
+              {t("prompts.use")}
+            </button>
           </div>
-          <div className="metric-label">Total Disbursed</div>
         </div>
       )}
-      {calculations.saldoPendienteTotal && (
-        <div className="metric-card metric-orange">
-          <div className="metric-number">
-            {formatNumber(calculations.saldoPendienteTotal)}
+
+      {draft && (
+        <div className="prompt-form">
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder={t("prompts.textPlaceholder")}
+            rows={2}
+          />
+          <input
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            placeholder={t("prompts.categoryPlaceholder")}
+            list="prompt-categories"
+          />
+          <datalist id="prompt-categories">
+            {categories.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <div className="prompt-form-actions">
+            <button
+              onClick={() => setDraft(null)}
+              className="file-preview-cancel"
+            >
+              {t("prompts.cancel")}
+            </button>
+            <button
+              onClick={() => {
+                addPrompt(draft.text, draft.category);
+                setDraft(null);
+              }}
+              disabled={!draft.text.trim()}
+              className="file-preview-confirm"
+            >
+              {t("prompts.save")}
+            </button>
           </div>
-          <div className="metric-label">Pending Balance</div>
         </div>
       )}
-      {calculations.promedioTasaInteres && (
-        <div className="metric-card metric-purple">
-          <div className="metric-number">
-            {calculations.promedioTasaInteres.toFixed(1)}%
+
+      <div className="prompt-actions">
+        <button
+          onClick={() => setDraft({ text: "", category })}
+          className="prompt-link-btn"
+        >
+          <Plus size={14} />
+          {t("prompts.new")}
+        </button>
+        {currentQuestion.trim() && (
+          <button
+            onClick={() => setDraft({ text: currentQuestion, category })}
+            className="prompt-link-btn"
+          >
+            <Pin size={14} />
+            {t("prompts.saveCurrent")}
+          </button>
+        )}
+        <button
+          onClick={() =>
+            downloadBlob(
+              new Blob([exportPrompts(prompts)], { type: "application/json" }),
+              "prompt-library.json"
+            )
+          }
+          disabled={prompts.length === 0}
+          className="prompt-link-btn"
+        >
+          <Download size={14} />
+          {t("prompts.export")}
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="prompt-link-btn"
+        >
+          <Upload size={14} />
+          {t("prompts.import")}
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {notice && <p className="prompt-notice">{notice}</p>}
+    </div>
+  );
+};
+
+// Nombre de un dataset; se aplica al salir del campo para no renombrar con
+// cada tecla (un nombre repetido o vacío se corrige al guardarlo)
+const DatasetNameInput: React.FC<{
+  name: string;
+  onRename: (name: string) => void;
+}> = ({ name, onRename }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      className="dataset-name"
+      value={draft ?? name}
+      title={t("datasets.rename")}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      onBlur={() => {
+        if (draft !== null && draft !== name) onRename(draft);
+        setDraft(null);
+      }}
+    />
+  );
+};
+
+// Archivos de la sesión: nombres editables, más archivos y claves para cruzarlos
+const DatasetsPanel: React.FC<{
+  datasets: Dataset[];
+  joins: DatasetJoin[];
+  target: string | null;
+  busy: boolean;
+  onTargetChange: (datasetId: string | null) => void;
+  onRename: (datasetId: string, name: string) => void;
+  onAddFiles: (files: File[]) => void;
+  onAddJoin: (join: DatasetJoin) => void;
+  onRemoveJoin: (index: number) => void;
+}> = ({
+  datasets,
+  joins,
+  target,
+  busy,
+  onTargetChange,
+  onRename,
+  onAddFiles,
+  onAddJoin,
+  onRemoveJoin,
+}) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [leftId, setLeftId] = useState("");
+  const [rightId, setRightId] = useState("");
+  const [leftColumn, setLeftColumn] = useState("");
+  const [rightColumn, setRightColumn] = useState("");
+
+  // Sin elección explícita: los dos primeros datasets y una columna en común
+  const left = datasets.find((d) => d.id === leftId) ?? datasets[0];
+  const right =
+    datasets.find((d) => d.id === rightId && d.id !== left.id) ??
+    datasets.find((d) => d.id !== left.id);
+  const shared = right ? sharedColumns(left, right) : [];
+  const leftKey = left.columns.includes(leftColumn)
+    ? leftColumn
+    : shared[0] ?? left.columns[0];
+  const rightKey =
+    right && right.columns.includes(rightColumn)
+      ? rightColumn
+      : shared.includes(leftKey)
+      ? leftKey
+      : right?.columns[0];
+
+  const handleFiles = (files: File[]) => {
+    setFileError(null);
+    for (const file of files) {
+      const invalid = validateUploadFile(file);
+      if (invalid) {
+        setFileError(`${file.name}: ${t(invalid.error, invalid.params)}`);
+        return;
+      }
+    }
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  return (
+    <div className="sidebar-section">
+      <h3 className="sidebar-title">
+        <Database size={20} />
+        {t("datasets.title")}
+      </h3>
+
+      <div className="dataset-list">
+        {datasets.map((dataset) => (
+          <div
+            key={dataset.id}
+            className={`dataset-item${
+              target === dataset.id ? " dataset-item-active" : ""
+            }`}
+          >
+            <div className="dataset-row">
+              <DatasetNameInput
+                name={dataset.name}
+                onRename={(name) => onRename(dataset.id, name)}
+              />
+              {datasets.length > 1 && (
+                <button
+                  onClick={() =>
+                    onTargetChange(target === dataset.id ? null : dataset.id)
+                  }
+                  className={`dataset-target-btn${
+                    target === dataset.id ? " active" : ""
+                  }`}
+                  title={t(
+                    target === dataset.id
+                      ? "datasets.targeted"
+                      : "datasets.target"
+                  )}
+                >
+                  <Crosshair size={14} />
+                </button>
+              )}
+            </div>
+            <span className="dataset-meta">
+              {t("datasets.summary", {
+                fileName: dataset.fileName,
+                rows: formatter.count(dataset.totalRows),
+                columns: dataset.columns.length,
+              })}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={busy}
+        className="dataset-add"
+      >
+        <Plus size={14} />
+        {t("datasets.add")}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={UPLOAD_EXTENSIONS.join(",")}
+        style={{ display: "none" }}
+        onChange={(e) => {
+          handleFiles([...(e.target.files ?? [])]);
+          e.target.value = "";
+        }}
+      />
+      {fileError && <p className="dataset-error">{fileError}</p>}
+
+      {right && (
+        <div className="dataset-joins">
+          <h4 className="dataset-joins-title">
+            <Link2 size={14} />
+            {t("datasets.joins")}
+          </h4>
+          {joins.length === 0 && (
+            <p className="dataset-joins-hint">{t("datasets.joinHint")}</p>
+          )}
+          {joins.map((join, index) => (
+            <div key={describeJoin(join, datasets)} className="dataset-join">
+              <span>{describeJoin(join, datasets)}</span>
+              <button
+                onClick={() => onRemoveJoin(index)}
+                className="dataset-join-remove"
+                title={t("datasets.removeJoin")}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+
+          <div className="dataset-join-form">
+            <select value={left.id} onChange={(e) => setLeftId(e.target.value)}>
+              {datasets.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={leftKey}
+              onChange={(e) => setLeftColumn(e.target.value)}
+            >
+              {left.columns.map((col) => (
+                <option key={col} value={col}>
+                  {col}
+                </option>
+              ))}
+            </select>
+            <span className="dataset-join-equals">=</span>
+            <select
+              value={right.id}
+              onChange={(e) => setRightId(e.target.value)}
+            >
+              {datasets
+                .filter((d) => d.id !== left.id)
+                .map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name}
+                  </option>
+                ))}
+            </select>
+            <select
+              value={rightKey}
+              onChange={(e) => setRightColumn(e.target.value)}
+            >
+              {right.columns.map((col) => (
+                <option key={col} value={col}>
+                  {col}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() =>
+                leftKey &&
+                rightKey &&
+                onAddJoin({
+                  left: { datasetId: left.id, column: leftKey },
+                  right: { datasetId: right.id, column: rightKey },
+                })
+              }
+              disabled={!leftKey || !rightKey}
+              className="dataset-add"
+            >
+              <Link2 size={14} />
+              {t("datasets.addJoin")}
+            </button>
           </div>
-          <div className="metric-label">Avg Interest Rate</div>
         </div>
       )}
     </div>
   );
 };
 
+// Panel de estructura: tipos inferidos sobre toda la muestra y estadísticas por columna
+const SchemaPanel: React.FC<{
+  columns: string[];
+  sampleData: Record<string, unknown>[];
+  onInsertColumn: (column: string) => void;
+}> = ({ columns, sampleData, onInsertColumn }) => {
+  const { t } = useI18n();
+  const [search, setSearch] = useState("");
+  const schema = useMemo(
+    () => inferSchema(columns, sampleData),
+    [columns, sampleData]
+  );
+  const filtered = schema.filter((col) =>
+    col.name.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <div className="sidebar-section">
+      <h3 className="sidebar-title">
+        <FileText size={20} />
+        {t("sidebar.dataStructure")}
+      </h3>
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder={t("sidebar.searchColumns", { count: columns.length })}
+        className="schema-search"
+      />
+      <div className="data-preview schema-list">
+        {filtered.map((col) => (
+          <button
+            key={col.name}
+            onClick={() => onInsertColumn(col.name)}
+            className="preview-row schema-row"
+            title={t("sidebar.insertColumn")}
+          >
+            <div className="schema-row-main">
+              <span className="col-name">{col.name}</span>
+              <span className={`col-type col-type-${col.type}`}>
+                {col.type}
+              </span>
+            </div>
+            <div className="schema-stats">
+              <span>{t("sidebar.nulls", { count: col.nullCount })}</span>
+              <span>{t("sidebar.distinct", { count: col.distinctCount })}</span>
+              {col.min !== undefined && col.max !== undefined && (
+                <span>
+                  {formatSchemaValue(col.min)} – {formatSchemaValue(col.max)}
+                </span>
+              )}
+            </div>
+          </button>
+        ))}
+        {filtered.length === 0 && (
+          <div className="more-columns">
+            <span className="more-badge">{t("sidebar.noColumns")}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Alto fijo de fila: permite calcular qué filas se ven sin medirlas
+const GRID_ROW_HEIGHT = 34;
+const GRID_OVERSCAN = 10;
+
+const formatGridCell = (value: CellValue, formatter: NumberFormatter) =>
+  value === null
+    ? "—"
+    : typeof value === "number"
+    ? formatter.number(value)
+    : value;
+
+// Grilla virtualizada: solo se renderizan las filas a la vista
+const DataGrid: React.FC<{
+  rows: Row[];
+  columns: string[];
+  onAsk: (grid: GridState) => void;
+}> = ({ rows, columns, onAsk }) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const [grid, setGrid] = useState(() => createGridState(columns));
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(480);
+  const [columnsOpen, setColumnsOpen] = useState(false);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const shown = visibleColumns(grid, columns);
+  const ordered = visibleColumns({ ...grid, hidden: [] }, columns);
+  const filtered = useMemo(
+    () => applyGrid(rows, columns, grid),
+    [rows, columns, grid]
+  );
+  const filtering =
+    !!grid.search.trim() ||
+    Object.values(grid.filters).some((expression) => expression.trim());
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(viewport.clientHeight)
+    );
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Cambiar filtros u orden vuelve al principio de los resultados
+  const updateView = (update: (prev: GridState) => GridState) => {
+    setGrid(update);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  };
+
+  // Encabezado y fila de filtros ocupan dos filas fijas arriba
+  const bodyTop = Math.max(0, scrollTop - 2 * GRID_ROW_HEIGHT);
+  const first = Math.max(
+    0,
+    Math.floor(bodyTop / GRID_ROW_HEIGHT) - GRID_OVERSCAN
+  );
+  const last = Math.min(
+    filtered.length,
+    Math.ceil((bodyTop + viewportHeight) / GRID_ROW_HEIGHT) + GRID_OVERSCAN
+  );
+  const template = `repeat(${shown.length}, minmax(9rem, 1fr))`;
+
+  return (
+    <div className="data-grid">
+      <div className="data-grid-toolbar">
+        <input
+          type="search"
+          value={grid.search}
+          onChange={(e) => {
+            const search = e.target.value;
+            updateView((prev) => ({ ...prev, search }));
+          }}
+          placeholder={t("explorer.search")}
+          className="data-grid-search"
+        />
+        <div className="data-grid-columns">
+          <button
+            onClick={() => setColumnsOpen((open) => !open)}
+            className="data-grid-action"
+          >
+            <LayoutList size={14} />
+            {t("explorer.columns", {
+              shown: shown.length,
+              total: columns.length,
+            })}
+          </button>
+          {columnsOpen && (
+            <div className="data-grid-columns-menu">
+              {ordered.map((col, index) => (
+                <div key={col} className="data-grid-column-option">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={!grid.hidden.includes(col)}
+                      onChange={(e) => {
+                        const visible = e.target.checked;
+                        setGrid((prev) => ({
+                          ...prev,
+                          hidden: visible
+                            ? prev.hidden.filter((c) => c !== col)
+                            : [...prev.hidden, col],
+                        }));
+                      }}
+                    />
+                    <span>{col}</span>
+                  </label>
+                  <button
+                    onClick={() =>
+                      setGrid((prev) => ({
+                        ...prev,
+                        order: moveColumn(ordered, col, -1),
+                      }))
+                    }
+                    disabled={index === 0}
+                    title={t("explorer.moveLeft")}
+                  >
+                    <ArrowUp size={12} />
+                  </button>
+                  <button
+                    onClick={() =>
+                      setGrid((prev) => ({
+                        ...prev,
+                        order: moveColumn(ordered, col, 1),
+                      }))
+                    }
+                    disabled={index === ordered.length - 1}
+                    title={t("explorer.moveRight")}
+                  >
+                    <ArrowDown size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className="data-grid-viewport"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div
+          className="data-grid-row data-grid-header"
+          style={{ gridTemplateColumns: template, height: GRID_ROW_HEIGHT }}
+        >
+          {shown.map((col) => (
+            <button
+              key={col}
+              onClick={() =>
+                updateView((prev) => ({
+                  ...prev,
+                  sort: toggleSort(prev.sort, col),
+                }))
+              }
+              className="data-grid-cell data-grid-heading"
+              title={t("explorer.sort")}
+            >
+              <span>{col}</span>
+              {grid.sort?.column === col &&
+                (grid.sort.direction === "asc" ? (
+                  <ArrowUp size={12} />
+                ) : (
+                  <ArrowDown size={12} />
+                ))}
+            </button>
+          ))}
+        </div>
+        <div
+          className="data-grid-row data-grid-filters"
+          style={{
+            gridTemplateColumns: template,
+            height: GRID_ROW_HEIGHT,
+            top: GRID_ROW_HEIGHT,
+          }}
+        >
+          {shown.map((col) => (
+            <input
+              key={col}
+              value={grid.filters[col] ?? ""}
+              onChange={(e) => {
+                const expression = e.target.value;
+                updateView((prev) => ({
+                  ...prev,
+                  filters: { ...prev.filters, [col]: expression },
+                }));
+              }}
+              placeholder={t("explorer.filter")}
+              title={t("explorer.filterHint")}
+              className={`data-grid-cell data-grid-filter${
+                grid.filters[col]?.trim() && !parseFilter(grid.filters[col])
+                  ? " invalid"
+                  : ""
+              }`}
+            />
+          ))}
+        </div>
+        <div
+          className="data-grid-body"
+          style={{ height: filtered.length * GRID_ROW_HEIGHT }}
+        >
+          {filtered.slice(first, last).map((row, offset) => (
+            <div
+              key={first + offset}
+              className="data-grid-row"
+              style={{
+                gridTemplateColumns: template,
+                height: GRID_ROW_HEIGHT,
+                top: (first + offset) * GRID_ROW_HEIGHT,
+              }}
+            >
+              {shown.map((col) => (
+                <span
+                  key={col}
+                  className={`data-grid-cell${
+                    row[col] === null || row[col] === undefined
+                      ? " data-grid-null"
+                      : typeof row[col] === "number"
+                      ? " data-grid-number"
+                      : ""
+                  }`}
+                >
+                  {formatGridCell(row[col] ?? null, formatter)}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+        {filtered.length === 0 && (
+          <p className="data-grid-empty">{t("explorer.noRows")}</p>
+        )}
+      </div>
+
+      <div className="data-grid-footer">
+        <span>
+          {t("explorer.rowCount", {
+            shown: formatter.count(filtered.length),
+            total: formatter.count(rows.length),
+          })}
+        </span>
+        {filtering && (
+          <button
+            onClick={() =>
+              updateView((prev) => ({ ...prev, search: "", filters: {} }))
+            }
+            className="data-grid-action"
+          >
+            <X size={14} />
+            {t("explorer.clearFilters")}
+          </button>
+        )}
+        <button
+          onClick={() => onAsk(grid)}
+          disabled={!filtering || filtered.length === 0}
+          className="data-grid-ask"
+          title={filtering ? undefined : t("explorer.askHint")}
+        >
+          <MessageCircle size={14} />
+          {t("explorer.ask")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Pestaña de exploración: las filas del archivo sin pasar por la IA
+const DataExplorer: React.FC<{
+  datasets: Dataset[];
+  rows: Record<string, Row[]>;
+  initialDatasetId: string;
+  onAsk: (text: string, datasetId: string) => void;
+}> = ({ datasets, rows, initialDatasetId, onAsk }) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const [datasetId, setDatasetId] = useState(initialDatasetId);
+  const dataset =
+    datasets.find((d) => d.id === datasetId) ??
+    datasets.find((d) => d.id === initialDatasetId) ??
+    datasets[0];
+  const fullRows = rows[dataset.id];
+  const sample = useMemo(
+    () => toRows(dataset.sampleData),
+    [dataset.sampleData]
+  );
+
+  const handleAsk = (grid: GridState) => {
+    const conditions = describeSelection(grid, t);
+    onAsk(
+      t("explorer.askPrompt", {
+        dataset: dataset.name,
+        conditions: conditions.join("; "),
+      }),
+      dataset.id
+    );
+  };
+
+  return (
+    <div className="data-explorer">
+      <div className="data-explorer-header">
+        {datasets.length > 1 && (
+          <select
+            value={dataset.id}
+            onChange={(e) => setDatasetId(e.target.value)}
+            className="data-explorer-dataset"
+          >
+            {datasets.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {!fullRows && (
+          <span className="data-explorer-note">
+            <AlertCircle size={14} />
+            {t("explorer.sampleOnly", {
+              shown: formatter.count(sample.length),
+              total: formatter.count(dataset.totalRows),
+            })}
+          </span>
+        )}
+      </div>
+      <DataGrid
+        key={dataset.id}
+        rows={fullRows ?? sample}
+        columns={dataset.columns}
+        onAsk={handleAsk}
+      />
+    </div>
+  );
+};
+
+// Componente para mostrar métricas
+const MetricsDisplay: React.FC<{ calculations: Calculations }> = ({
+  calculations,
+}) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const metrics = getMetrics(calculations, formatter, t);
+
+  return (
+    <div className="metrics-display">
+      {metrics.length > 0 && (
+        <div className="metrics-grid">
+          {metrics.map((metric) => (
+            <div
+              key={metric.key}
+              className={`metric-card metric-${metric.color} ${
+                metric.format === "text" || metric.format === "list"
+                  ? "metric-text"
+                  : ""
+              }`}
+              title={metric.key}
+            >
+              <div className="metric-number">{metric.value}</div>
+              <div className="metric-label">{metric.label}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      <details className="metrics-raw">
+        <summary>{t("answer.rawCalculations")}</summary>
+        <pre>{JSON.stringify(calculations, null, 2)}</pre>
+      </details>
+    </div>
+  );
+};
+
+// Cifras de la respuesta recalculadas en el navegador sobre el archivo
+const VerificationBadge: React.FC<{
+  verification: Verification | "unavailable";
+}> = ({ verification }) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+
+  if (verification === "unavailable") {
+    return (
+      <div className="verification-badge verification-unavailable">
+        <ShieldOff size={14} />
+        {t("verify.unavailable")}
+      </div>
+    );
+  }
+  const { checks, mismatches } = verification;
+
+  if (mismatches.length === 0) {
+    return (
+      <div className="verification-badge verification-ok">
+        <ShieldCheck size={14} />
+        {t("verify.matched", { count: checks.length })}
+      </div>
+    );
+  }
+  return (
+    <details className="verification-badge verification-mismatch">
+      <summary>
+        <AlertTriangle size={14} />
+        {t("verify.mismatch", {
+          count: mismatches.length,
+          total: checks.length,
+        })}
+      </summary>
+      <ul className="verification-list">
+        {mismatches.map((check) => (
+          <li key={check.label}>
+            {t("verify.detail", {
+              label: check.metric ? metricLabel(check.metric, t) : check.label,
+              reported: formatter.number(check.reported),
+              expected:
+                check.expected === null
+                  ? "—"
+                  : formatter.number(check.expected),
+            })}
+          </li>
+        ))}
+      </ul>
+      <p className="verification-note">{t("verify.note")}</p>
+    </details>
+  );
+};
+
 // Componente principal del chat
 const ChatMessage: React.FC<{
   message: Message;
   onExpandChart: (data: ChartData) => void;
-}> = ({ message, onExpandChart }) => {
+  pinned?: Record<PinKind, boolean>;
+  onPin?: (kind: PinKind) => void;
+  // "unavailable": hay cifras pero no las filas para recalcularlas
+  verification?: Verification | "unavailable" | null;
+}> = ({ message, onExpandChart, pinned, onPin, verification }) => {
   const isUser = message.type === "user";
+  const canPin = onPin && !message.streaming;
+  const { t } = useI18n();
 
   return (
     <div className={`chat-message ${isUser ? "user" : "ai"}`}>
@@ -721,7 +2330,22 @@ const ChatMessage: React.FC<{
               <BarChart3 size={16} />
             </div>
             <div className="ai-content">
-              <p className="message-text">{message.content}</p>
+              {canPin && (
+                <button
+                  onClick={() => onPin("answer")}
+                  className={`message-pin-btn ${
+                    pinned?.answer ? "pinned" : ""
+                  }`}
+                  title={pinned?.answer ? t("answer.unpin") : t("answer.pin")}
+                >
+                  {pinned?.answer ? <PinOff size={14} /> : <Pin size={14} />}
+                </button>
+              )}
+              <div className="message-text">
+                <Markdown source={message.content}>
+                  {message.streaming && <span className="streaming-cursor" />}
+                </Markdown>
+              </div>
               {message.calculations && (
                 <MetricsDisplay calculations={message.calculations} />
               )}
@@ -729,11 +2353,804 @@ const ChatMessage: React.FC<{
                 <ChartDisplay
                   chartData={message.chartData}
                   onExpand={onExpandChart}
+                  pinned={pinned?.chart}
+                  onPin={canPin ? () => onPin("chart") : undefined}
                 />
               )}
+              {verification && !message.streaming && (
+                <VerificationBadge verification={verification} />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Selección de respuestas para el informe PDF generado en el navegador
+const ReportBuilderModal: React.FC<{
+  messages: Message[];
+  onGenerate: (indexes: number[]) => Promise<void>;
+  onClose: () => void;
+}> = ({ messages, onGenerate, onClose }) => {
+  const candidates = messages
+    .map((message, index) => ({ message, index }))
+    .filter(({ message }) => message.type === "ai" && !message.streaming);
+  const [selected, setSelected] = useState<Set<number>>(
+    () =>
+      new Set(
+        candidates
+          .filter(
+            ({ message, index }) =>
+              message.calculations ||
+              message.chartData ||
+              messages[index - 1]?.type === "user"
+          )
+          .map(({ index }) => index)
+      )
+  );
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      await onGenerate([...selected].sort((a, b) => a - b));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("report.pdfFailed"));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content report-builder"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2 className="modal-title">
+            <FileText size={20} />
+            {t("report.pdf")}
+          </h2>
+          <button onClick={onClose} className="modal-close">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="modal-body report-builder-body">
+          <p className="report-builder-hint">{t("report.builderHint")}</p>
+          {candidates.map(({ message, index }) => (
+            <label key={message.id ?? index} className="report-builder-item">
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => toggle(index)}
+              />
+              <div>
+                <div className="report-builder-question">
+                  {messages[index - 1]?.type === "user"
+                    ? messages[index - 1].content
+                    : t("report.analysis")}
+                </div>
+                <div className="report-builder-answer">
+                  {message.content.slice(0, 140)}
+                  {message.content.length > 140 ? "…" : ""}
+                </div>
+                <div className="report-builder-tags">
+                  {message.calculations && (
+                    <span>{t("report.tagMetrics")}</span>
+                  )}
+                  {message.chartData && <span>{t("report.tagChart")}</span>}
+                </div>
+              </div>
+            </label>
+          ))}
+          {error && (
+            <div className="error-message">
+              <AlertCircle size={20} />
+              <span>{error}</span>
             </div>
+          )}
+        </div>
+        <div className="report-builder-footer">
+          <button onClick={onClose} className="file-preview-cancel">
+            {t("report.close")}
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={selected.size === 0 || generating}
+            className="file-preview-confirm"
+          >
+            <Download size={16} />
+            {generating
+              ? t("report.buildingPdf")
+              : selected.size === 1
+              ? t("report.downloadPdfSectionsOne")
+              : t("report.downloadPdfSections", { count: selected.size })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Tablero del informe: respuestas y gráficas fijadas, con títulos y notas propias
+const ReportBoardModal: React.FC<{
+  board: BoardItem[];
+  canSend: boolean;
+  onChange: (board: BoardItem[]) => void;
+  onSend: () => Promise<void>;
+  onDownloadPdf: () => Promise<void>;
+  onClose: () => void;
+}> = ({ board, canSend, onChange, onSend, onDownloadPdf, onClose }) => {
+  const [busy, setBusy] = useState<"send" | "pdf" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const updateText = (id: string, text: string) =>
+    onChange(
+      board.map((item) =>
+        item.id === id && (item.kind === "heading" || item.kind === "note")
+          ? { ...item, text }
+          : item
+      )
+    );
+
+  const run = async (action: "send" | "pdf") => {
+    setBusy(action);
+    setError(null);
+    try {
+      await (action === "send" ? onSend() : onDownloadPdf());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("report.buildFailed"));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content report-builder report-board"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2 className="modal-title">
+            <LayoutList size={20} />
+            {t("report.boardTitle")}
+          </h2>
+          <button onClick={onClose} className="modal-close">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="modal-body report-builder-body">
+          {board.length === 0 ? (
+            <p className="report-builder-hint">
+              {t("report.boardEmptyBefore")} <Pin size={12} />{" "}
+              {t("report.boardEmptyAfter")}
+            </p>
+          ) : (
+            board.map((item, index) => (
+              <div key={item.id} className={`report-board-item ${item.kind}`}>
+                <div className="report-board-content">
+                  {item.kind === "heading" ? (
+                    <input
+                      value={item.text}
+                      onChange={(e) => updateText(item.id, e.target.value)}
+                      placeholder={t("report.headingPlaceholder")}
+                      className="report-board-heading"
+                    />
+                  ) : item.kind === "note" ? (
+                    <textarea
+                      value={item.text}
+                      onChange={(e) => updateText(item.id, e.target.value)}
+                      placeholder={t("report.notePlaceholder")}
+                      rows={2}
+                      className="report-board-note"
+                    />
+                  ) : item.kind === "chart" ? (
+                    <div className="report-builder-question">
+                      <BarChart3 size={14} /> {item.chartData.title}
+                    </div>
+                  ) : (
+                    <>
+                      <div className="report-builder-question">
+                        {item.question ?? t("report.analysis")}
+                      </div>
+                      <div className="report-builder-answer">
+                        {item.content.slice(0, 140)}
+                        {item.content.length > 140 ? "…" : ""}
+                      </div>
+                      <div className="report-builder-tags">
+                        {item.calculations && (
+                          <span>{t("report.tagMetrics")}</span>
+                        )}
+                        {item.chartData && <span>{t("report.tagChart")}</span>}
+                      </div>
+                    </>
+                  )}
+                </div>
+                <div className="report-board-controls">
+                  <button
+                    onClick={() => onChange(moveItem(board, index, index - 1))}
+                    disabled={index === 0}
+                    title={t("report.moveUp")}
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => onChange(moveItem(board, index, index + 1))}
+                    disabled={index === board.length - 1}
+                    title={t("report.moveDown")}
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    onClick={() =>
+                      onChange(board.filter((other) => other.id !== item.id))
+                    }
+                    title={t("report.removeFromBoard")}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+          <div className="report-board-add">
+            <button
+              onClick={() => onChange([...board, createTextItem("heading")])}
+              className="quick-action-btn"
+            >
+              <Heading size={14} />
+              <span className="action-text">{t("report.addHeading")}</span>
+            </button>
+            <button
+              onClick={() => onChange([...board, createTextItem("note")])}
+              className="quick-action-btn"
+            >
+              <StickyNote size={14} />
+              <span className="action-text">{t("report.addNote")}</span>
+            </button>
           </div>
+          {error && (
+            <div className="error-message">
+              <AlertCircle size={20} />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+        <div className="report-builder-footer">
+          <button
+            onClick={() => run("pdf")}
+            disabled={board.length === 0 || busy !== null}
+            className="file-preview-cancel"
+          >
+            <Download size={16} />
+            {busy === "pdf" ? t("report.buildingPdf") : t("report.downloadPdf")}
+          </button>
+          <button
+            onClick={() => run("send")}
+            disabled={board.length === 0 || !canSend || busy !== null}
+            className="file-preview-confirm"
+          >
+            <FileText size={16} />
+            {busy === "send"
+              ? t("report.generatingWord")
+              : t("report.generateWord")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Conversación importada desde JSON, solo lectura
+const ConversationViewer: React.FC<{
+  conversation: ConversationExport;
+  onExpandChart: (data: ChartData) => void;
+  onClose: () => void;
+}> = ({ conversation, onExpandChart, onClose }) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  return (
+    <div className="conversation-viewer">
+      <div className="conversation-viewer-header">
+        <div>
+          <h2 className="conversation-viewer-title">
+            <Eye size={20} />
+            {conversation.session.fileName ?? conversation.session.sessionId}
+          </h2>
+          <p className="conversation-viewer-meta">
+            {t("viewer.summary", {
+              records: formatter.count(conversation.session.totalRows ?? 0),
+              date: new Date(conversation.exportedAt).toLocaleString(),
+            })}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="modal-close"
+          title={t("viewer.close")}
+        >
+          <X size={20} />
+        </button>
+      </div>
+      <div className="messages-container">
+        {conversation.messages.map((message, index) => (
+          <ChatMessage
+            key={message.id ?? index}
+            message={message}
+            onExpandChart={onExpandChart}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Campo de pregunta: autocompletado de columnas (@ o [) y comandos (/),
+// historial de la sesión con las flechas
+const ChatInput: React.FC<{
+  inputRef: React.RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  columns: string[];
+  history: string[];
+  disabled: boolean;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}> = ({ inputRef, value, columns, history, disabled, onChange, onSubmit }) => {
+  const { t } = useI18n();
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // null mientras se escribe; si no, posición en el historial
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const completions = useMemo(
+    () => (focused && !dismissed ? getCompletions(value, caret, columns) : []),
+    [focused, dismissed, value, caret, columns]
+  );
+  const active = Math.min(activeIndex, completions.length - 1);
+
+  const accept = (completion: Completion) => {
+    const next = applyCompletion(value, completion);
+    onChange(next.value);
+    setCaret(next.caret);
+    setActiveIndex(0);
+    requestAnimationFrame(() =>
+      inputRef.current?.setSelectionRange(next.caret, next.caret)
+    );
+  };
+
+  const recall = (index: number | null) => {
+    if (historyIndex === null) setDraft(value);
+    setHistoryIndex(index);
+    setDismissed(true);
+    onChange(index === null ? draft : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (completions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex(
+          (active + step + completions.length) % completions.length
+        );
+        return;
+      }
+      if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+        e.preventDefault();
+        accept(completions[active]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissed(true);
+        return;
+      }
+    }
+
+    // Las flechas solo recorren el historial desde la primera o última línea
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const collapsed = selectionStart === selectionEnd;
+    if (
+      e.key === "ArrowUp" &&
+      collapsed &&
+      history.length > 0 &&
+      !value.slice(0, selectionStart).includes("\n")
+    ) {
+      e.preventDefault();
+      recall(
+        historyIndex === null
+          ? history.length - 1
+          : Math.max(0, historyIndex - 1)
+      );
+      return;
+    }
+    if (
+      e.key === "ArrowDown" &&
+      collapsed &&
+      historyIndex !== null &&
+      !value.slice(selectionEnd).includes("\n")
+    ) {
+      e.preventDefault();
+      recall(historyIndex < history.length - 1 ? historyIndex + 1 : null);
+      return;
+    }
+
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      setHistoryIndex(null);
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="input-wrapper">
+      {completions.length > 0 && (
+        <ul className="chat-suggestions" role="listbox">
+          {completions.map((completion, index) => (
+            <li
+              key={`${completion.label}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              className={`chat-suggestion${
+                index === active ? " chat-suggestion-active" : ""
+              }`}
+              // mousedown para no perder el foco del campo antes de aceptar
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(completion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="chat-suggestion-label">{completion.label}</span>
+              {completion.detail && (
+                <span className="chat-suggestion-detail">
+                  {t(completion.detail)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setDismissed(false);
+          setActiveIndex(0);
+          setHistoryIndex(null);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        placeholder={t("chat.placeholder")}
+        disabled={disabled}
+        className="chat-input"
+        rows={1}
+        aria-autocomplete="list"
+        aria-expanded={completions.length > 0}
+        style={{
+          minHeight: "48px",
+          maxHeight: "120px",
+          height: Math.min(120, Math.max(48, value.split("\n").length * 24)),
+        }}
+      />
+      {value.trim() && completions.length === 0 && (
+        <div className="input-hint">{t("chat.enterHint")}</div>
+      )}
+    </div>
+  );
+};
+
+// Error de la API: mensaje según el tipo y la acción para recuperarse
+const ApiErrorNotice: React.FC<{
+  error: unknown;
+  onRetry?: () => void;
+  onReupload?: () => void;
+  onDismiss: () => void;
+}> = ({ error, onRetry, onReupload, onDismiss }) => {
+  const { t } = useI18n();
+  const { kind, message, action } = describeError(error, t);
+  const Icon =
+    kind === "network"
+      ? WifiOff
+      : kind === "timeout" || kind === "rate-limited"
+      ? Clock
+      : AlertCircle;
+  const recover =
+    action === "retry" ? onRetry : action === "reupload" ? onReupload : null;
+
+  return (
+    <div className={`error-toast api-error api-error-${kind}`} role="alert">
+      <Icon size={20} />
+      <span>{message}</span>
+      {recover && (
+        <button onClick={recover} className="api-error-action">
+          {action === "retry" ? <RotateCcw size={14} /> : <Upload size={14} />}
+          {t(action === "retry" ? "error.retry" : "error.reupload")}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        className="toast-close"
+        title={t("error.dismiss")}
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+// Sesión vencida: volver a subir el archivo y repetir las preguntas
+const SessionExpiredPanel: React.FC<{
+  fileName?: string;
+  lastFile: File | null;
+  questionCount: number;
+  loading: boolean;
+  // Avance de la nueva subida; null si no hay ninguna en curso
+  progress: UploadProgress | null;
+  // Datasets cuyo archivo no se puede volver a subir: bloquean la repetición
+  missingDatasets: string[];
+  onReupload: (file: File, replay: boolean) => void;
+  onCancel: () => void;
+}> = ({
+  fileName,
+  lastFile,
+  questionCount,
+  loading,
+  progress,
+  missingDatasets,
+  onReupload,
+  onCancel,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canReplay = missingDatasets.length === 0;
+  const [replay, setReplay] = useState(questionCount > 0 && canReplay);
+  const { t } = useI18n();
+
+  return (
+    <div className="session-expired">
+      <div className="session-expired-header">
+        <Clock size={20} />
+        <div>
+          <h4 className="session-expired-title">{t("session.expired")}</h4>
+          <p className="session-expired-text">
+            {t("session.expiredText", {
+              file: fileName ?? t("session.yourFile"),
+            })}
+          </p>
+        </div>
+      </div>
+
+      {questionCount > 0 && (
+        <label className="session-expired-replay">
+          <input
+            type="checkbox"
+            checked={replay && canReplay}
+            onChange={(e) => setReplay(e.target.checked)}
+            disabled={loading || !canReplay}
+          />
+          {questionCount === 1
+            ? t("session.replayOne")
+            : t("session.replay", { count: questionCount })}
+        </label>
+      )}
+      {questionCount > 0 && !canReplay && (
+        <p className="session-expired-text">
+          {t("session.replayBlocked", { names: missingDatasets.join(", ") })}
+        </p>
+      )}
+
+      <div className="session-expired-actions">
+        {lastFile && (
+          <button
+            onClick={() => onReupload(lastFile, replay && canReplay)}
+            disabled={loading}
+            className="file-preview-confirm"
+          >
+            <Upload size={16} />
+            {t("session.reupload", { name: lastFile.name })}
+          </button>
         )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          className="file-preview-cancel"
+        >
+          {t("session.chooseFile")}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={UPLOAD_EXTENSIONS.join(",")}
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onReupload(file, replay && canReplay);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {progress && (
+        <div>
+          {progress.loaded < progress.total ? (
+            <UploadProgressBar progress={progress} />
+          ) : (
+            <div className="loading-dots">
+              <div className="dot dot-1" />
+              <div className="dot dot-2" />
+              <div className="dot dot-3" />
+              <span>{t("upload.analyzingShort")}</span>
+            </div>
+          )}
+          <button onClick={onCancel} className="upload-cancel">
+            <X size={16} />
+            {t("upload.cancel")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Preferencias de formato numérico: idioma, moneda, notación y negativos
+const FormatSettingsPanel: React.FC<{
+  settings: FormatSettings;
+  onChange: (settings: FormatSettings) => void;
+}> = ({ settings, onChange }) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const update = (changes: Partial<FormatSettings>) =>
+    onChange({ ...settings, ...changes });
+
+  return (
+    <div className="sidebar-section">
+      <h3 className="sidebar-title">
+        <Settings size={20} />
+        {t("sidebar.numberFormat")}
+      </h3>
+      <div className="format-settings">
+        <label>
+          {t("sidebar.locale")}
+          <select
+            value={settings.locale}
+            onChange={(e) =>
+              update({ locale: e.target.value as FormatSettings["locale"] })
+            }
+          >
+            {LOCALE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t("sidebar.currency")}
+          <select
+            value={settings.currency}
+            onChange={(e) =>
+              update({
+                currency: e.target.value as FormatSettings["currency"],
+              })
+            }
+          >
+            {CURRENCY_OPTIONS.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t("sidebar.negatives")}
+          <select
+            value={settings.negatives}
+            onChange={(e) =>
+              update({
+                negatives: e.target.value as FormatSettings["negatives"],
+              })
+            }
+          >
+            <option value="minus">-1,200</option>
+            <option value="parentheses">(1,200)</option>
+          </select>
+        </label>
+        <label className="format-settings-check">
+          <input
+            type="checkbox"
+            checked={settings.compact}
+            onChange={(e) => update({ compact: e.target.checked })}
+          />
+          {t("sidebar.compact")}
+        </label>
+        <p className="format-settings-preview">
+          {formatter.currency(1234567)} • {formatter.currency(-1250)} •{" "}
+          {formatter.percent(12.5)}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+// Lista de sesiones guardadas localmente para retomar conversaciones
+const SessionHistory: React.FC<{
+  sessions: StoredSession[];
+  activeSessionId?: string;
+  onSelect: (stored: StoredSession) => void;
+  onRemove: (sessionId: string) => void;
+}> = ({ sessions, activeSessionId, onSelect, onRemove }) => {
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  return (
+    <div className="sidebar-section session-history">
+      <h3 className="sidebar-title">
+        <History size={20} />
+        {t("sidebar.recentSessions")}
+      </h3>
+      <div className="session-history-list">
+        {sessions.map((stored) => (
+          <div
+            key={stored.session.sessionId}
+            className={`session-history-item ${
+              stored.session.sessionId === activeSessionId ? "active" : ""
+            }`}
+          >
+            <button
+              onClick={() => onSelect(stored)}
+              className="session-history-open"
+              disabled={stored.session.sessionId === activeSessionId}
+            >
+              <span className="session-history-name">
+                {stored.session.fileName ?? stored.session.sessionId}
+                {isSessionExpired(stored) && (
+                  <span className="session-history-expired">
+                    {t("sidebar.expired")}
+                  </span>
+                )}
+              </span>
+              <span className="session-history-meta">
+                {t("sidebar.sessionSummary", {
+                  rows: formatter.count(stored.session.totalRows ?? 0),
+                  questions: stored.messages.filter((m) => m.type === "user")
+                    .length,
+                  date: new Date(stored.updatedAt).toLocaleString(),
+                })}
+              </span>
+            </button>
+            <button
+              onClick={() => onRemove(stored.session.sessionId)}
+              className="session-history-remove"
+              title={t("sidebar.removeSession")}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -741,13 +3158,78 @@ const ChatMessage: React.FC<{
 
 // Componente principal con navegación entre landing y app
 const ExcelAIChat: React.FC = () => {
-  const [currentView, setCurrentView] = useState<"landing" | "app">("landing");
-  const [sessionData, setSessionData] = useState<SessionData | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [restored] = useState(loadActiveSession);
+  const [currentView, setCurrentView] = useState<"landing" | "app">(
+    restored ? "app" : "landing"
+  );
+  const [sessionData, setSessionData] = useState<SessionData | null>(
+    restored?.session ?? null
+  );
+  const [messages, setMessages] = useState<Message[]>(restored?.messages ?? []);
+  const [storedSessions, setStoredSessions] = useState(loadSessions);
+  const pendingSaveRef = useRef<{
+    sessionId: string;
+    save: () => void;
+  } | null>(null);
+  const [sessionRejected, setSessionRejected] = useState(false);
+  const lastFileRef = useRef<File | null>(null);
+  // Archivo de cada dataset de la sesión abierta, para volver a subirlos si
+  // vence; no sobrevive a una recarga
+  const datasetFilesRef = useRef<Record<string, File>>({});
+  const [reuploadProgress, setReuploadProgress] =
+    useState<UploadProgress | null>(null);
+  const reuploadControllerRef = useRef<AbortController | null>(null);
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(
+    null
+  );
+  const [importedConversation, setImportedConversation] =
+    useState<ConversationExport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [reportBuilderOpen, setReportBuilderOpen] = useState(false);
+  const [board, setBoard] = useState<BoardItem[]>(restored?.board ?? []);
+  const [reportBoardOpen, setReportBoardOpen] = useState(false);
+  const [reportJob, setReportJob] = useState<ReportJob | null>(null);
+  const [reports, setReports] = useState<GeneratedReport[]>([]);
+  const [language, setLanguage] = useState(loadLanguage);
+  const i18n = useMemo(() => createI18n(language), [language]);
+  const { t } = i18n;
+  const [formatSettings, setFormatSettings] = useState(loadFormatSettings);
+  const formatter = useMemo(
+    () => createFormatter(formatSettings),
+    [formatSettings]
+  );
   const [inputValue, setInputValue] = useState("");
+  // Dataset al que apuntan las preguntas; null = todos (cruzados por los joins)
+  const [targetDataset, setTargetDataset] = useState<string | null>(null);
+  // Filas leídas en el navegador por dataset; solo en memoria, no se persisten
+  const [datasetRows, setDatasetRows] = useState<Record<string, Row[]>>({});
+  const [mainView, setMainView] = useState<"chat" | "explorer">("chat");
+  const [inputHistory, setInputHistory] = useState(() =>
+    inputHistoryFrom(restored?.messages ?? [])
+  );
+  const [commandError, setCommandError] = useState<string | null>(null);
+  // Última pregunta que falló por un error recuperable, para reintentarla
+  const [failedQuestion, setFailedQuestion] = useState<{
+    question: string;
+    sessionId?: string;
+  } | null>(null);
   const [expandedChart, setExpandedChart] = useState<ChartData | null>(null);
+  // Aviso de archivo subido: se oculta solo o con la primera pregunta
+  const [justUploaded, setJustUploaded] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const chatInputRef = useRef<HTMLTextAreaElement>(null);
   const { apiCall, loading, error, clearError } = useAPI();
+  const apiClient = useApiClient();
+  const expiryLevel = useExpiryLevel(sessionData?.expiresAt);
+  const sessionExpired = sessionRejected || expiryLevel === "expired";
+  const datasets = sessionData ? sessionDatasets(sessionData) : [];
+  // Las ayudas de la UI siguen al dataset elegido; sin elección, al principal
+  const focusDataset =
+    (sessionData && findDataset(sessionData, targetDataset)) ?? datasets[0];
+  const questionColumns = sessionData
+    ? datasetColumns(sessionData, targetDataset)
+    : [];
 
   // Auto-scroll al final del chat
   useEffect(() => {
@@ -757,17 +3239,126 @@ const ExcelAIChat: React.FC = () => {
     }
   }, [messages]);
 
+  useEffect(() => {
+    if (!justUploaded) return;
+    const timer = setTimeout(() => setJustUploaded(false), UPLOAD_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [justUploaded]);
+
+  useEffect(() => {
+    saveFormatSettings(formatSettings);
+  }, [formatSettings]);
+
+  useEffect(() => {
+    saveLanguage(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Persistir sesión y conversación para sobrevivir recargas. Guardar reescribe
+  // todo localStorage: se agrupan los cambios seguidos y no se guarda mientras
+  // llega una respuesta en streaming
+  useEffect(() => {
+    setActiveSessionId(sessionData?.sessionId ?? null);
+    // Cambió la sesión: lo pendiente de la anterior se guarda ya
+    const pending = pendingSaveRef.current;
+    if (pending && pending.sessionId !== sessionData?.sessionId) pending.save();
+    pendingSaveRef.current = null;
+    if (!sessionData || messages.some((m) => m.streaming)) return;
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      setStoredSessions(saveSession(sessionData, messages, board));
+    };
+    pendingSaveRef.current = { sessionId: sessionData.sessionId, save };
+    const timer = setTimeout(save, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionData, messages, board]);
+
+  useEffect(() => {
+    const flush = () => pendingSaveRef.current?.save();
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, []);
+
+  // Una sesión eliminada no debe volver con un guardado pendiente
+  const forgetSession = (sessionId: string) => {
+    if (pendingSaveRef.current?.sessionId === sessionId) {
+      pendingSaveRef.current = null;
+    }
+    setStoredSessions(removeSession(sessionId));
+  };
+
+  // Los informes en curso y descargados pertenecen a la sesión que se deja
+  const resetReports = () => {
+    reportJob?.controller.abort();
+    setReports([]);
+  };
+
+  const clearSession = () => {
+    setSessionData(null);
+    setMessages([]);
+    setInputHistory([]);
+    setTargetDataset(null);
+    setDatasetRows({});
+    setMainView("chat");
+    setBoard([]);
+    resetReports();
+    setJustUploaded(false);
+  };
+
+  const handleSelectSession = (stored: StoredSession) => {
+    const current = loadSessions().find(
+      (s) => s.session.sessionId === stored.session.sessionId
+    );
+    if (!current) {
+      // Venció mientras la lista estaba en pantalla
+      setStoredSessions(loadSessions());
+      return;
+    }
+    setSessionData(current.session);
+    setTargetDataset(null);
+    setDatasetRows({});
+    setMessages(current.messages);
+    setInputHistory(inputHistoryFrom(current.messages));
+    setBoard(current.board ?? []);
+    resetReports();
+    setJustUploaded(false);
+    setSessionRejected(false);
+    lastFileRef.current = null;
+    datasetFilesRef.current = {};
+  };
+
+  const handleRemoveSession = (sessionId: string) => {
+    forgetSession(sessionId);
+    if (sessionData?.sessionId === sessionId) {
+      clearSession();
+    }
+  };
+
   const handleGetStarted = () => {
     setCurrentView("app");
   };
 
   const handleBackToLanding = () => {
     setCurrentView("landing");
-    setSessionData(null);
-    setMessages([]);
+    clearSession();
   };
 
-  const handleFileUploaded = (uploadResult: ApiResponse) => {
+  // Abre la sesión con el primer archivo; los demás se agregan después como
+  // datasets. Devuelve la sesión abierta
+  const handleFileUploaded = (
+    { file, result: uploadResult, sheet, rows }: UploadedFile,
+    extra: SelectedFile[] = []
+  ) => {
+    lastFileRef.current = file;
+    setSessionRejected(false);
+    setJustUploaded(true);
+
+    const datasets = [
+      createDataset(uploadResult, file.name, PRIMARY_DATASET_ID, sheet),
+    ];
+    datasetFilesRef.current = { [datasets[0].id]: file };
+
     const sessionInfo: SessionData = {
       sessionId: uploadResult.sessionId!,
       totalRows: uploadResult.totalRows!,
@@ -775,16 +3366,22 @@ const ExcelAIChat: React.FC = () => {
       sampleData: uploadResult.sampleData!,
       expiresAt: uploadResult.expiresAt!,
       validFor: uploadResult.validFor!,
+      fileName: file.name,
+      datasets,
     };
 
     setSessionData(sessionInfo);
+    setTargetDataset(null);
+    setDatasetRows(rows ? { [datasets[0].id]: rows } : {});
 
     // Mensaje de bienvenida
     const welcomeMessage: Message = {
       type: "ai",
-      content: `✅ File processed successfully!\n\n📊 **${uploadResult.totalRows?.toLocaleString()} records** loaded\n📋 **${
-        uploadResult.columns?.length
-      } columns** detected\n⏰ Session valid for **2 days**\n\nYou can now ask me anything about your data!`,
+      content: t("upload.welcome", {
+        rows: formatter.count(uploadResult.totalRows ?? 0),
+        columns: uploadResult.columns?.length ?? 0,
+        validFor: uploadResult.validFor ?? "2 days",
+      }),
       timestamp: new Date().toISOString(),
     };
 
@@ -804,448 +3401,1314 @@ const ExcelAIChat: React.FC = () => {
           calculations: uploadResult.initialResponse.calculations,
           chartData: uploadResult.initialResponse.chartData,
           timestamp: new Date().toISOString(),
+          datasetId: datasets[0].id,
         }
       );
     }
-
-    setMessages(newMessages);
+
+    setMessages(newMessages);
+    setInputHistory(inputHistoryFrom(newMessages));
+    if (extra.length > 0) handleAddDatasets(extra, sessionInfo);
+    return sessionInfo;
+  };
+
+  const datasetAddedMessage = (dataset: Dataset): Message => ({
+    type: "ai",
+    content: t("datasets.added", {
+      name: dataset.name,
+      rows: formatter.count(dataset.totalRows),
+      columns: dataset.columns.length,
+    }),
+    timestamp: new Date().toISOString(),
+  });
+
+  // Agrega archivos a la sesión como datasets con nombre; `session` es la
+  // recién abierta cuando todavía no llegó al estado. Devuelve los agregados
+  // y se detiene en el primero que falla
+  const handleAddDatasets = async (
+    files: SelectedFile[],
+    session = sessionData
+  ) => {
+    const added: Dataset[] = [];
+    if (!session) return added;
+    const known = sessionDatasets(session);
+    for (const { file, sheet, rows: selectedRows } of files) {
+      try {
+        const result = await apiCall((client) =>
+          uploadFile(client, file, {
+            sessionId: session.sessionId,
+            sheet,
+            language,
+          })
+        );
+        const rows = selectedRows ?? (await readSheetRows(file, sheet));
+        const created = createDataset(
+          result,
+          file.name,
+          `dataset-${known.length + 1}`,
+          sheet
+        );
+        const dataset = {
+          ...created,
+          name: uniqueDatasetName(known, created.name),
+        };
+        known.push(dataset);
+        added.push(dataset);
+        datasetFilesRef.current[dataset.id] = file;
+        setSessionData((prev) =>
+          prev?.sessionId === session.sessionId
+            ? addDataset(prev, dataset)
+            : prev
+        );
+        if (rows) setDatasetRows((prev) => ({ ...prev, [dataset.id]: rows }));
+        setMessages((prev) => [...prev, datasetAddedMessage(dataset)]);
+      } catch (err) {
+        console.error("Dataset upload error:", err);
+        break;
+      }
+    }
+    return added;
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || loading) return;
+  const updateMessage = (
+    id: string,
+    update: (m: Message) => Partial<Message>
+  ) =>
+    setMessages((prev) =>
+      prev.map((m) => (m.id === id ? { ...m, ...update(m) } : m))
+    );
 
+  // Envía una pregunta y agrega la respuesta; devuelve false si falló o se
+  // detuvo. `scopeOverride` sirve para una sesión que todavía no llegó al estado
+  const askQuestion = async (
+    question: string,
+    sessionId?: string,
+    scopeOverride?: { datasetId?: string; joins?: DatasetJoin[] }
+  ) => {
     const userMessage: Message = {
+      id: createMessageId(),
       type: "user",
-      content: inputValue,
+      content: question,
       timestamp: new Date().toISOString(),
     };
+    const aiId = createMessageId();
+    const controller = new AbortController();
+    // El dataset elegido y los joins valen solo para la sesión abierta
+    const scope =
+      scopeOverride ??
+      (sessionData && sessionId === sessionData.sessionId
+        ? {
+            datasetId: targetDataset ?? undefined,
+            joins: sessionData.joins?.length ? sessionData.joins : undefined,
+          }
+        : {});
 
-    setMessages((prev) => [...prev, userMessage]);
-    setInputValue("");
+    setFailedQuestion(null);
+    setJustUploaded(false);
+    setMessages((prev) =>
+      STREAMING_ENABLED
+        ? [
+            ...prev,
+            userMessage,
+            {
+              id: aiId,
+              type: "ai",
+              content: "",
+              streaming: true,
+              timestamp: new Date().toISOString(),
+              datasetId: scope.datasetId,
+            },
+          ]
+        : [...prev, userMessage]
+    );
+    setActiveRequest(controller);
 
     try {
-      const result = await apiCall("/api/chat", {
-        method: "POST",
-        body: JSON.stringify({
-          question: inputValue,
-          sessionId: sessionData?.sessionId,
-        }),
-      });
+      if (STREAMING_ENABLED) {
+        await apiCall((client) =>
+          client.chatStream(
+            { question, sessionId, language, ...scope },
+            {
+              onToken: (text) =>
+                updateMessage(aiId, (m) => ({ content: m.content + text })),
+              onCalculations: (calculations) =>
+                updateMessage(aiId, () => ({ calculations })),
+              onChartData: (chartData) =>
+                updateMessage(aiId, () => ({ chartData })),
+            },
+            controller.signal
+          )
+        );
+        updateMessage(aiId, () => ({ streaming: false }));
+        return true;
+      }
+
+      const result = await apiCall((client) =>
+        client.chat(
+          { question, sessionId, language, ...scope },
+          controller.signal
+        )
+      );
 
       const aiMessage: Message = {
+        id: aiId,
         type: "ai",
         content: result.response!.aiResponse,
         calculations: result.response!.calculations,
         chartData: result.response!.chartData,
         timestamp: new Date().toISOString(),
+        datasetId: scope.datasetId,
       };
 
       setMessages((prev) => [...prev, aiMessage]);
+      return true;
     } catch (err) {
-      const errorMessage: Message = {
-        type: "ai",
-        content: `❌ Error: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`,
-        timestamp: new Date().toISOString(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      if (err instanceof SessionExpiredError) {
+        setSessionRejected(true);
+      }
+      const failure = describeError(err, t);
+      if (!isAbortError(err) && failure.action === "retry") {
+        setFailedQuestion({ question, sessionId });
+      }
+      const content = isAbortError(err)
+        ? t("chat.stopped")
+        : t("chat.error", { error: failure.message });
+      if (STREAMING_ENABLED) {
+        // Conservar el texto parcial recibido antes de la interrupción
+        updateMessage(aiId, (m) => ({
+          content: m.content ? `${m.content}\n\n${content}` : content,
+          streaming: false,
+        }));
+      } else {
+        const errorMessage: Message = {
+          id: aiId,
+          type: "ai",
+          content,
+          timestamp: new Date().toISOString(),
+        };
+        setMessages((prev) => [...prev, errorMessage]);
+      }
+      return false;
+    } finally {
+      setActiveRequest(null);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  const runCommand = async (command: SlashCommand) => {
+    switch (command.type) {
+      case "report":
+        await generateReport();
+        break;
+      // Borra los mensajes, lo fijado desde ellos en el tablero y el historial
+      // de entrada; la sesión, los datasets y los títulos y notas del tablero
+      // se conservan
+      case "clear":
+        activeRequest?.abort();
+        setMessages([]);
+        setBoard(withoutPins);
+        setInputHistory([]);
+        break;
+      case "export":
+        await handleExportConversation(command.format);
+        break;
+      case "chart":
+        await askQuestion(
+          t("command.chartQuestion", {
+            type: command.chartType,
+            column: command.column,
+          }),
+          sessionData?.sessionId
+        );
+        break;
     }
   };
 
-  const generateReport = async () => {
-    if (!sessionData?.sessionId) {
-      console.error("No session available for report generation");
+  const handleSendMessage = async () => {
+    if (!inputValue.trim() || loading || sessionExpired) return;
+
+    const question = inputValue;
+    const command = parseSlashCommand(question, questionColumns);
+    if (command && !command.ok) {
+      setCommandError(t(command.error, command.params));
       return;
     }
 
-    try {
-      // Show loading message
-      const loadingMessage: Message = {
-        type: "ai",
-        content:
-          "🔄 **Generating Strategic Report...**\n\nAnalyzing your data and creating comprehensive insights...",
-        timestamp: new Date().toISOString(),
-      };
-      setMessages((prev) => [...prev, loadingMessage]);
-
-      // Call the API to generate Word report
-      const response = await fetch(`${API_BASE}/api/generate-report-word`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          sessionId: sessionData.sessionId,
-        }),
-      });
+    setInputValue("");
+    setInputHistory((prev) => pushHistory(prev, question.trim()));
+    if (command) {
+      await runCommand(command.command);
+    } else {
+      await askQuestion(question, sessionData?.sessionId);
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "Error generating report");
-      }
+  // Nueva sesión con el mismo archivo y, opcionalmente, las mismas preguntas
+  // Los demás datasets vuelven con el archivo que se subió en esta pestaña;
+  // sin alguno de ellos las preguntas no se repiten, porque se responderían
+  // sobre otros datos
+  const handleReupload = async (file: File, replay: boolean) => {
+    const previous = sessionData;
+    const [primary, ...others] = previous ? sessionDatasets(previous) : [];
+    // Misma hoja que la sesión anterior, si el libro todavía la tiene
+    const sheet = primary?.sheet;
+    const files = datasetFilesRef.current;
+    const missing = others.filter((dataset) => !files[dataset.id]);
+    // Cada pregunta con el dataset al que apuntó su respuesta
+    const questions = messages.flatMap((m, i) =>
+      m.type === "user"
+        ? [{ question: m.content, datasetId: messages[i + 1]?.datasetId }]
+        : []
+    );
 
-      // Create download link
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
+    const controller = new AbortController();
+    reuploadControllerRef.current = controller;
+    setReuploadProgress({
+      loaded: 0,
+      total: file.size,
+      chunked: false,
+      resumed: false,
+    });
 
-      const fileName = `Strategic_Report_${
-        new Date().toISOString().split("T")[0]
-      }.docx`;
-      link.download = fileName;
+    try {
+      let result;
+      try {
+        result = await apiCall((client) =>
+          uploadFile(client, file, {
+            sheet,
+            language,
+            signal: controller.signal,
+            onProgress: setReuploadProgress,
+          })
+        );
+      } finally {
+        reuploadControllerRef.current = null;
+        setReuploadProgress(null);
+      }
+      if (previous) {
+        forgetSession(previous.sessionId);
+      }
+      const session = handleFileUploaded({
+        file,
+        result,
+        sheet,
+        rows: await readSheetRows(file, sheet),
+      });
+      // Mismo archivo: el historial de entrada sigue disponible
+      setInputHistory(inputHistory);
+      if (!previous) return;
 
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      const restorable = others.filter((dataset) => files[dataset.id]);
+      const added = await handleAddDatasets(
+        restorable.map((dataset) => ({
+          file: files[dataset.id],
+          sheet: dataset.sheet,
+        })),
+        session
+      );
+      const ids = new Map([
+        [primary.id, sessionDatasets(session)[0].id],
+        ...added.map((dataset, i): [string, string] => [
+          restorable[i].id,
+          dataset.id,
+        ]),
+      ]);
+      const restored = carryOverDatasets(session, previous, ids);
+      setSessionData((prev) =>
+        prev?.sessionId === session.sessionId
+          ? carryOverDatasets(prev, previous, ids)
+          : prev
+      );
 
-      // Update the loading message to success
-      setMessages((prev) =>
-        prev.slice(0, -1).concat([
+      if (!replay || questions.length === 0) return;
+      const lost = [...missing, ...restorable.slice(added.length)].map(
+        (dataset) => dataset.name
+      );
+      if (lost.length > 0) {
+        setMessages((prev) => [
+          ...prev,
           {
             type: "ai",
-            content: `📥 **Strategic Report Generated Successfully**\n\n✅ File: ${fileName}\n📁 Format: Microsoft Word\n📊 Complete analysis with visualizations and recommendations\n\nThe report has been downloaded to your computer.`,
+            content: t("session.replayBlocked", { names: lost.join(", ") }),
             timestamp: new Date().toISOString(),
           },
-        ])
+        ]);
+        return;
+      }
+      for (const { question, datasetId } of questions) {
+        const ok = await askQuestion(question, session.sessionId, {
+          datasetId: datasetId && ids.get(datasetId),
+          joins: restored.joins?.length ? restored.joins : undefined,
+        });
+        if (!ok) break;
+      }
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Re-upload error:", err);
+    }
+  };
+
+  const insertIntoInput = (text: string) => {
+    setInputValue((prev) =>
+      prev && !prev.endsWith(" ") ? `${prev} ${text}` : `${prev}${text}`
+    );
+    chatInputRef.current?.focus();
+  };
+
+  // Con un solo dataset las respuestas sin `datasetId` también le pertenecen.
+  // Las filas no se guardan con la sesión: tras recargar la página o si el
+  // archivo no se pudo leer en el navegador, la respuesta queda sin verificar
+  const verificationFor = (message: Message) => {
+    if (message.type !== "ai" || message.streaming) return null;
+    if (!message.calculations && !message.chartData) return null;
+    const datasetId =
+      message.datasetId ?? (datasets.length === 1 ? datasets[0].id : null);
+    // Respuesta sobre varios datasets: no hay un archivo contra el cual verificar
+    if (!datasetId) return null;
+    const rows = datasetRows[datasetId];
+    return rows ? verifyMessage(message, rows) : "unavailable";
+  };
+
+  // La selección del explorador pasa al chat como comienzo de la pregunta
+  const handleAskSelection = (text: string, datasetId: string) => {
+    setInputValue(text);
+    setCommandError(null);
+    if (datasets.length > 1) setTargetDataset(datasetId);
+    setMainView("chat");
+    chatInputRef.current?.focus();
+  };
+
+  // Gráficas renderizadas en el chat como PNG, por índice de mensaje
+  const captureChartImages = async (): Promise<ChartImages> => {
+    const images: ChartImages = new Map();
+    const nodes =
+      chatContainerRef.current?.querySelectorAll<HTMLElement>(
+        ".chat-message"
+      ) ?? [];
+    for (const [index, node] of [...nodes].entries()) {
+      const chart = messages[index]?.chartData;
+      if (!chart) continue;
+      try {
+        const image = await captureChartImage(node, chart);
+        if (image) images.set(index, image);
+      } catch (err) {
+        console.error("Chart capture error:", err);
+      }
+    }
+    return images;
+  };
+
+  const handleExportConversation = async (format: "md" | "html" | "json") => {
+    if (!sessionData) return;
+    const exported = createConversationExport(sessionData, messages);
+    const fileName = toFileName(
+      `Conversation_${sessionData.fileName ?? sessionData.sessionId}`,
+      format
+    );
+
+    if (format === "json") {
+      downloadBlob(
+        new Blob([toJson(exported)], { type: "application/json" }),
+        fileName
       );
+      return;
+    }
+
+    const options = {
+      chartImages: await captureChartImages(),
+      formatter,
+      i18n,
+    };
+    downloadBlob(
+      format === "md"
+        ? new Blob([toMarkdown(exported, options)], { type: "text/markdown" })
+        : new Blob([toHtml(exported, options)], { type: "text/html" }),
+      fileName
+    );
+  };
+
+  const addReport = (
+    blob: Blob,
+    fileName: string,
+    format: GeneratedReport["format"]
+  ) =>
+    setReports((prev) => [
+      {
+        id: createMessageId(),
+        fileName,
+        format,
+        createdAt: new Date().toISOString(),
+        blob,
+      },
+      ...prev,
+    ]);
+
+  const downloadPdfReport = async (sections: ReportSection[]) => {
+    if (!sessionData) return;
+    // jsPDF solo se carga cuando se pide un PDF
+    const { buildPdfReport } = await import("./pdfReport");
+    const blob = buildPdfReport({
+      session: sessionData,
+      sections,
+      formatter,
+      i18n,
+    });
+    const fileName = `Strategic_Report_${
+      new Date().toISOString().split("T")[0]
+    }.pdf`;
+    downloadBlob(blob, fileName);
+    addReport(blob, fileName, "pdf");
+  };
+
+  const handleGeneratePdf = async (indexes: number[]) => {
+    const images = await captureChartImages();
+    const sections: ReportSection[] = indexes.map((index) => {
+      const message = messages[index];
+      const previous = messages[index - 1];
+      const image = images.get(index);
+      return {
+        question: previous?.type === "user" ? previous.content : undefined,
+        answer: message.content,
+        metrics: metricEntries(message.calculations, formatter, t),
+        chart:
+          message.chartData && image
+            ? { title: message.chartData.title, image }
+            : undefined,
+      };
+    });
+
+    await downloadPdfReport(sections);
+    setReportBuilderOpen(false);
+  };
+
+  const handlePin = (index: number, kind: PinKind) =>
+    setBoard((prev) => togglePin(prev, messages, index, kind));
+
+  const handleBoardPdf = async () => {
+    const images = await captureChartImages();
+    const sections: ReportSection[] = board.flatMap((item): ReportSection[] => {
+      if (item.kind === "heading" || item.kind === "note") {
+        return item.text.trim()
+          ? [{ kind: item.kind, answer: item.text.trim(), metrics: [] }]
+          : [];
+      }
+      const image = images.get(resolveMessageIndex(item, messages));
+      const chart =
+        item.chartData && image
+          ? { title: item.chartData.title, image }
+          : undefined;
+      return item.kind === "chart"
+        ? [{ question: item.chartData.title, answer: "", metrics: [], chart }]
+        : [
+            {
+              question: item.question,
+              answer: item.content,
+              metrics: metricEntries(item.calculations, formatter, t),
+              chart,
+            },
+          ];
+    });
+    await downloadPdfReport(sections);
+  };
+
+  const handleImportConversation = async (file: File) => {
+    setImportError(null);
+    try {
+      setImportedConversation(parseConversationExport(await file.text(), t));
     } catch (err) {
-      console.error("Report error:", err);
-      // Update the loading message to error
-      setMessages((prev) =>
-        prev.slice(0, -1).concat([
-          {
-            type: "ai",
-            content: `❌ **Error Generating Report**\n\nSorry, there was an issue creating your strategic report: ${
-              err instanceof Error ? err.message : "Unknown error"
-            }\n\nPlease try again or contact support if the problem persists.`,
-            timestamp: new Date().toISOString(),
-          },
-        ])
+      setImportError(
+        err instanceof Error ? err.message : t("chat.importError")
+      );
+    }
+  };
+
+  // Con `outline` el informe sigue el tablero; sin él, el análisis completo
+  const generateReport = async (outline?: ReportOutlineSection[]) => {
+    if (!sessionData?.sessionId) {
+      console.error("No session available for report generation");
+      return;
+    }
+    if (reportJob) return;
+
+    const messageId = createMessageId();
+    let job: ReportJob = {
+      messageId,
+      controller: new AbortController(),
+      attempt: 1,
+      maxAttempts: REPORT_RETRIES + 1,
+      status: "generating",
+      progress: null,
+    };
+    const progressContent = () =>
+      `${t("report.generating")}\n\n${describeReportJob(job, t)}`;
+    const updateJob = (changes: Partial<ReportJob>) => {
+      job = { ...job, ...changes };
+      setReportJob(job);
+      updateMessage(messageId, () => ({ content: progressContent() }));
+    };
+
+    setReportJob(job);
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: messageId,
+        type: "ai",
+        content: progressContent(),
+        timestamp: new Date().toISOString(),
+      },
+    ]);
+
+    try {
+      const { signal } = job.controller;
+      const blob = await withRetry(
+        (attempt) => {
+          if (attempt > 1) {
+            updateJob({ attempt, status: "generating", progress: null });
+          }
+          return apiClient.generateReportWord(
+            { sessionId: sessionData.sessionId, outline },
+            {
+              signal,
+              onProgress: (loaded, total) =>
+                updateJob({
+                  status: "downloading",
+                  progress: total ? loaded / total : null,
+                }),
+            }
+          );
+        },
+        {
+          retries: REPORT_RETRIES,
+          signal,
+          onRetry: (attempt) => updateJob({ attempt, status: "retrying" }),
+        }
       );
+
+      const format = reportFormatOf(blob);
+      const fileName = `Strategic_Report_${
+        new Date().toISOString().split("T")[0]
+      }.${format}`;
+      downloadBlob(blob, fileName);
+      addReport(blob, fileName, format);
+
+      updateMessage(messageId, () => ({
+        content: t("report.success", {
+          fileName,
+          format: t(REPORT_FORMAT_LABELS[format]),
+          scope: outline
+            ? t("report.scopeBoard", { count: outline.length })
+            : t("report.scopeFull"),
+        }),
+      }));
+    } catch (err) {
+      if (isAbortError(err)) {
+        updateMessage(messageId, () => ({
+          content: t("report.cancelled"),
+        }));
+        return;
+      }
+      console.error("Report error:", err);
+      updateMessage(messageId, () => ({
+        content: t("report.error", {
+          error: describeError(err, t).message,
+        }),
+      }));
+    } finally {
+      setReportJob(null);
     }
   };
 
   // Mostrar landing page o app
   if (currentView === "landing") {
-    return <LandingPage onGetStarted={handleGetStarted} />;
+    return (
+      <I18nContext.Provider value={i18n}>
+        <LandingPage
+          onGetStarted={handleGetStarted}
+          onLanguageChange={setLanguage}
+        />
+      </I18nContext.Provider>
+    );
   }
 
   return (
-    <div className="app-container">
-      {/* Header */}
-      <header className="app-header">
-        <div className="container">
-          <div className="header-content">
-            <div className="header-left">
-              <button onClick={handleBackToLanding} className="logo-button">
-                <BarChart3 size={24} />
-              </button>
-              <div className="header-info">
-                <h1 className="header-title">Excel AI Analyst</h1>
-                <p className="header-subtitle">
-                  Intelligent data analysis powered by AI
-                </p>
-              </div>
-            </div>
-
-            {sessionData && (
-              <div className="header-right">
-                <div className="session-info">
-                  <div className="session-records">
-                    {sessionData.totalRows?.toLocaleString()} records
+    <I18nContext.Provider value={i18n}>
+      <FormatContext.Provider value={formatter}>
+        <div className="app-container">
+          {/* Header */}
+          <header className="app-header">
+            <div className="container">
+              <div className="header-content">
+                <div className="header-left">
+                  <button onClick={handleBackToLanding} className="logo-button">
+                    <BarChart3 size={24} />
+                  </button>
+                  <div className="header-info">
+                    <h1 className="header-title">{t("header.title")}</h1>
+                    <p className="header-subtitle">{t("header.subtitle")}</p>
                   </div>
-                  <div className="session-timer">
-                    <Clock size={12} />
-                    Session expires in 2 days
-                  </div>
-                </div>
-                <button
-                  onClick={generateReport}
-                  disabled={loading}
-                  className="generate-report-btn"
-                >
-                  <FileText size={16} />
-                  Generate Report
-                </button>
-              </div>
-            )}
-          </div>
-        </div>
-      </header>
-
-      <main className="app-main">
-        <div className="container">
-          {!sessionData ? (
-            /* Upload Screen */
-            <div className="upload-screen">
-              <div className="upload-content">
-                <div className="upload-header">
-                  <h2 className="upload-title">Ready to Analyze Your Data?</h2>
-                  <p className="upload-description">
-                    Upload your Excel or CSV file and start having intelligent
-                    conversations about your financial data
-                  </p>
                 </div>
 
-                <FileUpload
-                  onFileUploaded={handleFileUploaded}
-                  disabled={loading}
-                />
+                <LanguageSwitcher onChange={setLanguage} />
 
-                <div className="features-preview">
-                  <div className="feature-preview">
-                    <div className="preview-icon preview-blue">
-                      <BarChart3 size={24} />
-                    </div>
-                    <h4 className="preview-title">Smart Analytics</h4>
-                    <p className="preview-description">
-                      Ask questions and get instant insights with beautiful
-                      visualizations
-                    </p>
-                  </div>
-                  <div className="feature-preview">
-                    <div className="preview-icon preview-green">
-                      <MessageCircle size={24} />
+                {sessionData && (
+                  <div className="header-right">
+                    <div className="session-info">
+                      <div className="session-records">
+                        {t("header.records", {
+                          count: formatter.count(sessionData.totalRows ?? 0),
+                        })}
+                      </div>
+                      <div
+                        className={`session-timer session-timer-${expiryLevel}`}
+                      >
+                        <Clock size={12} />
+                        {sessionExpired ? (
+                          t("session.expired")
+                        ) : expiryLevel === "unknown" ? (
+                          t("session.validFor", {
+                            time: sessionData.validFor,
+                          })
+                        ) : (
+                          <SessionCountdown
+                            expiresAt={sessionData.expiresAt}
+                            format={(time) => t("session.expiresIn", { time })}
+                          />
+                        )}
+                      </div>
                     </div>
-                    <h4 className="preview-title">Natural Conversation</h4>
-                    <p className="preview-description">
-                      Chat naturally about your data like talking to an expert
-                      analyst
-                    </p>
-                  </div>
-                  <div className="feature-preview">
-                    <div className="preview-icon preview-purple">
-                      <FileText size={24} />
+                    <div className="report-buttons">
+                      {reportJob ? (
+                        <button
+                          onClick={() => reportJob.controller.abort()}
+                          className="generate-report-btn cancel-report"
+                          title={t("report.cancelTitle")}
+                        >
+                          <Square size={16} />
+                          {reportJob.progress === null
+                            ? t("report.cancel")
+                            : t("report.cancelProgress", {
+                                percent: Math.round(reportJob.progress * 100),
+                              })}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => generateReport()}
+                          disabled={sessionExpired}
+                          className="generate-report-btn"
+                        >
+                          <FileText size={16} />
+                          {t("report.generate")}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setReportBuilderOpen(true)}
+                        disabled={messages.length === 0 && board.length === 0}
+                        className="generate-report-btn download-pdf"
+                      >
+                        <Download size={16} />
+                        {t("report.pdf")}
+                      </button>
                     </div>
-                    <h4 className="preview-title">Strategic Reports</h4>
-                    <p className="preview-description">
-                      Generate professional analysis reports with actionable
-                      recommendations
-                    </p>
                   </div>
-                </div>
+                )}
               </div>
             </div>
-          ) : (
-            /* Chat Interface */
-            <div className="chat-layout">
-              {/* Chat Area */}
-              <div className="chat-area">
-                {/* Messages Container */}
-                <div ref={chatContainerRef} className="messages-container">
-                  {messages.map((message, index) => (
-                    <ChatMessage
-                      key={index}
-                      message={message}
-                      onExpandChart={setExpandedChart}
-                    />
-                  ))}
-
-                  {loading && (
-                    <div className="loading-message">
-                      <div className="loading-container">
-                        <div className="ai-loading-avatar">
-                          <Brain size={16} />
-                          <div className="loading-pulse" />
-                        </div>
-                        <div className="loading-content">
-                          <div className="loading-dots-container">
-                            <div className="loading-dot loading-dot-1" />
-                            <div className="loading-dot loading-dot-2" />
-                            <div className="loading-dot loading-dot-3" />
-                          </div>
-                          <span className="loading-text">
-                            AI analyzing your data...
-                          </span>
-                        </div>
-                      </div>
+          </header>
+
+          <main className="app-main">
+            <div className="container">
+              {importedConversation ? (
+                <ConversationViewer
+                  conversation={importedConversation}
+                  onExpandChart={setExpandedChart}
+                  onClose={() => setImportedConversation(null)}
+                />
+              ) : !sessionData ? (
+                /* Upload Screen */
+                <div className="upload-screen">
+                  <div className="upload-content">
+                    <div className="upload-header">
+                      <h2 className="upload-title">
+                        {t("upload.screenTitle")}
+                      </h2>
+                      <p className="upload-description">
+                        {t("upload.screenDescription")}
+                      </p>
                     </div>
-                  )}
-                </div>
 
-                {/* Input Area */}
-                <div className="input-area">
-                  <div className="input-container">
-                    <div className="input-wrapper">
-                      <textarea
-                        value={inputValue}
-                        onChange={(e) => setInputValue(e.target.value)}
-                        onKeyPress={handleKeyPress}
-                        placeholder="Ask anything about your data... 💬"
-                        disabled={loading}
-                        className="chat-input"
-                        rows={1}
-                        style={{
-                          minHeight: "48px",
-                          maxHeight: "120px",
-                          height: Math.min(
-                            120,
-                            Math.max(48, inputValue.split("\n").length * 24)
-                          ),
+                    <FileUpload
+                      onFileUploaded={handleFileUploaded}
+                      disabled={loading}
+                    />
+
+                    {storedSessions.length > 0 && (
+                      <SessionHistory
+                        sessions={storedSessions}
+                        onSelect={handleSelectSession}
+                        onRemove={handleRemoveSession}
+                      />
+                    )}
+
+                    <div className="import-conversation">
+                      <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="new-file-btn"
+                      >
+                        {t("upload.openConversation")}
+                      </button>
+                      <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: "none" }}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleImportConversation(file);
+                          e.target.value = "";
                         }}
                       />
-                      {inputValue.trim() && (
-                        <div className="input-hint">Press Enter to send</div>
+                      {importError && (
+                        <div className="error-message">
+                          <AlertCircle size={20} />
+                          <span>{importError}</span>
+                        </div>
                       )}
                     </div>
-                    <button
-                      onClick={handleSendMessage}
-                      disabled={!inputValue.trim() || loading}
-                      className="send-button"
-                    >
-                      <Send size={20} />
-                      <span>Send</span>
-                    </button>
-                  </div>
 
-                  {error && (
-                    <div className="chat-error">
-                      <AlertCircle size={20} />
-                      <span>{error}</span>
-                      <button onClick={clearError} className="error-close">
-                        <X size={16} />
-                      </button>
+                    <div className="features-preview">
+                      <div className="feature-preview">
+                        <div className="preview-icon preview-blue">
+                          <BarChart3 size={24} />
+                        </div>
+                        <h4 className="preview-title">
+                          {t("upload.preview.analytics.title")}
+                        </h4>
+                        <p className="preview-description">
+                          {t("upload.preview.analytics.description")}
+                        </p>
+                      </div>
+                      <div className="feature-preview">
+                        <div className="preview-icon preview-green">
+                          <MessageCircle size={24} />
+                        </div>
+                        <h4 className="preview-title">
+                          {t("upload.preview.conversation.title")}
+                        </h4>
+                        <p className="preview-description">
+                          {t("upload.preview.conversation.description")}
+                        </p>
+                      </div>
+                      <div className="feature-preview">
+                        <div className="preview-icon preview-purple">
+                          <FileText size={24} />
+                        </div>
+                        <h4 className="preview-title">
+                          {t("upload.preview.reports.title")}
+                        </h4>
+                        <p className="preview-description">
+                          {t("upload.preview.reports.description")}
+                        </p>
+                      </div>
                     </div>
-                  )}
+                  </div>
                 </div>
-              </div>
-
-              {/* Sidebar */}
-              <div className="sidebar">
-                {/* Quick Actions */}
-                <div className="sidebar-section">
-                  <h3 className="sidebar-title">
-                    <Zap size={20} />
-                    Quick Analysis
-                  </h3>
-                  <div className="quick-actions">
-                    {[
-                      { q: "¿Cuántos créditos están vencidos?", icon: "⚠️" },
-                      {
-                        q: "Muestra distribución por calificación",
-                        icon: "📊",
-                      },
-                      { q: "¿Cuál es el saldo total pendiente?", icon: "💰" },
-                      { q: "¿Qué agencia tiene mejor desempeño?", icon: "🏆" },
-                    ].map((item, index) => (
+              ) : (
+                /* Chat Interface */
+                <div className="chat-layout">
+                  {/* Chat Area */}
+                  <div className="chat-area">
+                    <div className="view-tabs">
                       <button
-                        key={index}
-                        onClick={() => setInputValue(item.q)}
-                        className="quick-action-btn"
+                        onClick={() => setMainView("chat")}
+                        className={`view-tab${
+                          mainView === "chat" ? " active" : ""
+                        }`}
                       >
-                        <span className="action-icon">{item.icon}</span>
-                        <span className="action-text">{item.q}</span>
+                        <MessageCircle size={16} />
+                        {t("explorer.chatTab")}
                       </button>
-                    ))}
-                  </div>
-                </div>
+                      <button
+                        onClick={() => setMainView("explorer")}
+                        className={`view-tab${
+                          mainView === "explorer" ? " active" : ""
+                        }`}
+                      >
+                        <Table size={16} />
+                        {t("explorer.tab")}
+                      </button>
+                    </div>
 
-                {/* Session Info */}
-                {sessionData && (
-                  <div className="sidebar-section">
-                    <h3 className="sidebar-title">
-                      <CheckCircle size={20} />
-                      Session Active
-                    </h3>
-                    <div className="session-details">
-                      <div className="session-item session-blue">
-                        <span className="session-label">Records:</span>
-                        <span className="session-value">
-                          {sessionData.totalRows?.toLocaleString()}
-                        </span>
-                      </div>
-                      <div className="session-item session-purple">
-                        <span className="session-label">Columns:</span>
-                        <span className="session-value">
-                          {sessionData.columns?.length}
-                        </span>
+                    {/* Messages Container */}
+                    <div className="chat-views">
+                      {/* El chat sigue montado debajo para poder capturar sus gráficas */}
+                      {mainView === "explorer" && (
+                        <DataExplorer
+                          datasets={datasets}
+                          rows={datasetRows}
+                          initialDatasetId={focusDataset.id}
+                          onAsk={handleAskSelection}
+                        />
+                      )}
+                      <div
+                        ref={chatContainerRef}
+                        className="messages-container"
+                      >
+                        {messages.map((message, index) => (
+                          <ChatMessage
+                            key={index}
+                            message={message}
+                            onExpandChart={setExpandedChart}
+                            pinned={{
+                              answer: isPinned(board, message, index, "answer"),
+                              chart: isPinned(board, message, index, "chart"),
+                            }}
+                            onPin={(kind) => handlePin(index, kind)}
+                            verification={verificationFor(message)}
+                          />
+                        ))}
+
+                        {loading && !STREAMING_ENABLED && (
+                          <div className="loading-message">
+                            <div className="loading-container">
+                              <div className="ai-loading-avatar">
+                                <Brain size={16} />
+                                <div className="loading-pulse" />
+                              </div>
+                              <div className="loading-content">
+                                <div className="loading-dots-container">
+                                  <div className="loading-dot loading-dot-1" />
+                                  <div className="loading-dot loading-dot-2" />
+                                  <div className="loading-dot loading-dot-3" />
+                                </div>
+                                <span className="loading-text">
+                                  {t("chat.thinking")}
+                                </span>
+                              </div>
+                            </div>
+                          </div>
+                        )}
                       </div>
-                      <div className="session-item session-green">
-                        <span className="session-label">Valid for:</span>
-                        <span className="session-value">2 days</span>
+                    </div>
+
+                    {/* Input Area */}
+                    <div className="input-area">
+                      {(expiryLevel === "warning" ||
+                        expiryLevel === "critical") &&
+                        !sessionExpired && (
+                          <div
+                            className={`session-warning session-warning-${expiryLevel}`}
+                          >
+                            <AlertCircle size={16} />
+                            <span>
+                              <SessionCountdown
+                                expiresAt={sessionData.expiresAt}
+                                format={(time) =>
+                                  t("session.warning", { time })
+                                }
+                              />
+                            </span>
+                          </div>
+                        )}
+
+                      {sessionExpired ? (
+                        <SessionExpiredPanel
+                          fileName={sessionData.fileName}
+                          lastFile={lastFileRef.current}
+                          questionCount={
+                            messages.filter((m) => m.type === "user").length
+                          }
+                          loading={loading}
+                          progress={reuploadProgress}
+                          missingDatasets={datasets
+                            .slice(1)
+                            .filter(
+                              (dataset) => !datasetFilesRef.current[dataset.id]
+                            )
+                            .map((dataset) => dataset.name)}
+                          onReupload={handleReupload}
+                          onCancel={() =>
+                            reuploadControllerRef.current?.abort()
+                          }
+                        />
+                      ) : (
+                        <>
+                          {datasets.length > 1 && (
+                            <div className="dataset-target">
+                              <Database size={16} />
+                              <label htmlFor="dataset-target">
+                                {t("datasets.askAbout")}
+                              </label>
+                              <select
+                                id="dataset-target"
+                                value={targetDataset ?? ""}
+                                onChange={(e) =>
+                                  setTargetDataset(e.target.value || null)
+                                }
+                              >
+                                <option value="">
+                                  {sessionData.joins?.length
+                                    ? t("datasets.allJoined")
+                                    : t("datasets.all")}
+                                </option>
+                                {datasets.map((dataset) => (
+                                  <option key={dataset.id} value={dataset.id}>
+                                    {dataset.name}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          )}
+                          <div className="input-container">
+                            <ChatInput
+                              inputRef={chatInputRef}
+                              value={inputValue}
+                              columns={questionColumns}
+                              history={inputHistory}
+                              disabled={loading}
+                              onChange={(value) => {
+                                setInputValue(value);
+                                setCommandError(null);
+                              }}
+                              onSubmit={handleSendMessage}
+                            />
+                            {activeRequest ? (
+                              <button
+                                onClick={() => activeRequest.abort()}
+                                className="send-button stop-button"
+                              >
+                                <Square size={18} />
+                                <span>{t("chat.stop")}</span>
+                              </button>
+                            ) : (
+                              <button
+                                onClick={handleSendMessage}
+                                disabled={!inputValue.trim() || loading}
+                                className="send-button"
+                              >
+                                <Send size={20} />
+                                <span>{t("chat.send")}</span>
+                              </button>
+                            )}
+                          </div>
+                        </>
+                      )}
+
+                      {commandError && (
+                        <div className="chat-error">
+                          <AlertCircle size={20} />
+                          <span>{commandError}</span>
+                          <button
+                            onClick={() => setCommandError(null)}
+                            className="error-close"
+                          >
+                            <X size={16} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Sidebar */}
+                  <div className="sidebar">
+                    {/* Quick Actions */}
+                    <PromptLibraryPanel
+                      columns={focusDataset.columns}
+                      sampleData={focusDataset.sampleData}
+                      currentQuestion={inputValue}
+                      onUsePrompt={(text) => {
+                        setInputValue(text);
+                        chatInputRef.current?.focus();
+                      }}
+                    />
+
+                    {/* Session Info */}
+                    {sessionData && (
+                      <div className="sidebar-section">
+                        <h3 className="sidebar-title">
+                          <CheckCircle size={20} />
+                          {t("sidebar.sessionActive")}
+                        </h3>
+                        <div className="session-details">
+                          <div className="session-item session-blue">
+                            <span className="session-label">
+                              {t("sidebar.records")}
+                            </span>
+                            <span className="session-value">
+                              {formatter.count(sessionData.totalRows ?? 0)}
+                            </span>
+                          </div>
+                          <div className="session-item session-purple">
+                            <span className="session-label">
+                              {t("sidebar.columns")}
+                            </span>
+                            <span className="session-value">
+                              {sessionData.columns?.length}
+                            </span>
+                          </div>
+                          <div className="session-item session-green">
+                            <span className="session-label">
+                              {expiryLevel === "unknown"
+                                ? t("sidebar.validFor")
+                                : t("sidebar.expiresIn")}
+                            </span>
+                            <span className="session-value">
+                              {sessionExpired ? (
+                                t("sidebar.expired")
+                              ) : expiryLevel === "unknown" ? (
+                                sessionData.validFor
+                              ) : (
+                                <SessionCountdown
+                                  expiresAt={sessionData.expiresAt}
+                                />
+                              )}
+                            </span>
+                          </div>
+                          <div className="session-actions">
+                            <button
+                              onClick={clearSession}
+                              className="new-file-btn"
+                            >
+                              {t("sidebar.uploadNew")}
+                            </button>
+                          </div>
+                        </div>
                       </div>
-                      <div className="session-actions">
+                    )}
+
+                    {/* Datasets */}
+                    <DatasetsPanel
+                      datasets={datasets}
+                      joins={sessionData.joins ?? []}
+                      target={targetDataset}
+                      busy={loading || sessionExpired}
+                      onTargetChange={setTargetDataset}
+                      onRename={(datasetId, name) =>
+                        setSessionData(
+                          (prev) => prev && renameDataset(prev, datasetId, name)
+                        )
+                      }
+                      onAddFiles={(files) =>
+                        handleAddDatasets(files.map((file) => ({ file })))
+                      }
+                      onAddJoin={(join) =>
+                        setSessionData((prev) => prev && addJoin(prev, join))
+                      }
+                      onRemoveJoin={(index) =>
+                        setSessionData(
+                          (prev) => prev && removeJoin(prev, index)
+                        )
+                      }
+                    />
+
+                    {/* Number Format */}
+                    <FormatSettingsPanel
+                      settings={formatSettings}
+                      onChange={setFormatSettings}
+                    />
+
+                    {/* Report Board: /clear deja sus títulos y notas */}
+                    {(board.length > 0 || messages.length > 0) && (
+                      <div className="sidebar-section">
+                        <h3 className="sidebar-title">
+                          <LayoutList size={20} />
+                          {t("sidebar.reportBoard")}
+                        </h3>
+                        <p className="report-board-summary">
+                          {board.length === 0
+                            ? t("sidebar.boardEmpty")
+                            : board.length === 1
+                            ? t("sidebar.boardCountOne")
+                            : t("sidebar.boardCount", { count: board.length })}
+                        </p>
                         <button
-                          onClick={() => {
-                            setSessionData(null);
-                            setMessages([]);
-                          }}
-                          className="new-file-btn"
+                          onClick={() => setReportBoardOpen(true)}
+                          className="quick-action-btn"
                         >
-                          📎 Upload new file
+                          <span className="action-text">
+                            {t("sidebar.openBoard")}
+                          </span>
                         </button>
                       </div>
-                    </div>
-                  </div>
-                )}
+                    )}
 
-                {/* Data Preview */}
-                {sessionData?.sampleData && (
-                  <div className="sidebar-section">
-                    <h3 className="sidebar-title">
-                      <FileText size={20} />
-                      Data Structure
-                    </h3>
-                    <div className="data-preview">
-                      {sessionData.columns?.slice(0, 6).map((col, index) => (
-                        <div key={index} className="preview-row">
-                          <span className="col-name">{col}</span>
-                          <span className="col-type">
-                            {typeof sessionData.sampleData[0]?.[col]}
-                          </span>
+                    {/* Generated Reports */}
+                    {reports.length > 0 && (
+                      <div className="sidebar-section">
+                        <h3 className="sidebar-title">
+                          <FileText size={20} />
+                          {t("sidebar.generatedReports")}
+                        </h3>
+                        <div className="session-history-list">
+                          {reports.map((report) => (
+                            <div
+                              key={report.id}
+                              className="session-history-item"
+                            >
+                              <button
+                                onClick={() =>
+                                  downloadBlob(report.blob, report.fileName)
+                                }
+                                className="session-history-open"
+                                title={t("sidebar.downloadAgain")}
+                              >
+                                <span className="session-history-name">
+                                  {report.fileName}
+                                </span>
+                                <span className="session-history-meta">
+                                  {report.format.toUpperCase()} •{" "}
+                                  {formatFileSize(report.blob.size)} •{" "}
+                                  {new Date(
+                                    report.createdAt
+                                  ).toLocaleTimeString()}
+                                </span>
+                              </button>
+                              <button
+                                onClick={() =>
+                                  setReports((prev) =>
+                                    prev.filter(
+                                      (other) => other.id !== report.id
+                                    )
+                                  )
+                                }
+                                className="session-history-remove"
+                                title={t("sidebar.removeFromList")}
+                              >
+                                <Trash2 size={14} />
+                              </button>
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                      {sessionData.columns?.length > 6 && (
-                        <div className="more-columns">
-                          <span className="more-badge">
-                            +{sessionData.columns.length - 6} more columns
-                          </span>
+                      </div>
+                    )}
+
+                    {/* Export Conversation */}
+                    {messages.length > 0 && (
+                      <div className="sidebar-section">
+                        <h3 className="sidebar-title">
+                          <Download size={20} />
+                          {t("sidebar.exportConversation")}
+                        </h3>
+                        <div className="export-actions">
+                          <button
+                            onClick={() => handleExportConversation("md")}
+                            className="quick-action-btn"
+                          >
+                            <span className="action-text">
+                              {t("sidebar.exportMarkdown")}
+                            </span>
+                          </button>
+                          <button
+                            onClick={() => handleExportConversation("html")}
+                            className="quick-action-btn"
+                          >
+                            <span className="action-text">
+                              {t("sidebar.exportHtml")}
+                            </span>
+                          </button>
+                          <button
+                            onClick={() => handleExportConversation("json")}
+                            className="quick-action-btn"
+                          >
+                            <span className="action-text">
+                              {t("sidebar.exportJson")}
+                            </span>
+                          </button>
                         </div>
-                      )}
-                    </div>
+                      </div>
+                    )}
+
+                    {/* Past Sessions */}
+                    {storedSessions.length > 1 && (
+                      <SessionHistory
+                        sessions={storedSessions}
+                        activeSessionId={sessionData.sessionId}
+                        onSelect={handleSelectSession}
+                        onRemove={handleRemoveSession}
+                      />
+                    )}
+
+                    {/* Data Preview */}
+                    {sessionData?.sampleData && (
+                      <SchemaPanel
+                        columns={focusDataset.columns}
+                        sampleData={focusDataset.sampleData}
+                        onInsertColumn={insertIntoInput}
+                      />
+                    )}
                   </div>
-                )}
-              </div>
+                </div>
+              )}
             </div>
+          </main>
+
+          {/* Chart Modal */}
+          {expandedChart && (
+            <ChartModal
+              chartData={expandedChart}
+              onClose={() => setExpandedChart(null)}
+            />
           )}
-        </div>
-      </main>
 
-      {/* Chart Modal */}
-      {expandedChart && (
-        <ChartModal
-          chartData={expandedChart}
-          onClose={() => setExpandedChart(null)}
-        />
-      )}
+          {/* PDF Report Builder */}
+          {reportBuilderOpen && (
+            <ReportBuilderModal
+              messages={messages}
+              onGenerate={handleGeneratePdf}
+              onClose={() => setReportBuilderOpen(false)}
+            />
+          )}
 
-      {/* Error Toast */}
-      {error && !loading && (
-        <div className="error-toast">
-          <AlertCircle size={20} />
-          <span>{error}</span>
-          <button onClick={clearError} className="toast-close">
-            <X size={16} />
-          </button>
-        </div>
-      )}
+          {/* Report Board */}
+          {reportBoardOpen && (
+            <ReportBoardModal
+              board={board}
+              canSend={!reportJob && !sessionExpired}
+              onChange={setBoard}
+              onSend={async () => {
+                setReportBoardOpen(false);
+                await generateReport(toReportOutline(board));
+              }}
+              onDownloadPdf={handleBoardPdf}
+              onClose={() => setReportBoardOpen(false)}
+            />
+          )}
+
+          {/* Error Toast */}
+          {!!error && !loading && (
+            <ApiErrorNotice
+              error={error}
+              onRetry={
+                failedQuestion
+                  ? () => {
+                      clearError();
+                      setFailedQuestion(null);
+                      askQuestion(
+                        failedQuestion.question,
+                        failedQuestion.sessionId
+                      );
+                    }
+                  : undefined
+              }
+              onReupload={
+                lastFileRef.current
+                  ? () => {
+                      clearError();
+                      handleReupload(lastFileRef.current!, true);
+                    }
+                  : undefined
+              }
+              onDismiss={clearError}
+            />
+          )}
 
-      {/* Success Toast */}
-      {sessionData && messages.length === 0 && (
-        <div className="success-toast">
-          <CheckCircle size={20} />
-          <span>File uploaded successfully! Start asking questions.</span>
+          {/* Success Toast */}
+          {justUploaded && (
+            <div className="success-toast">
+              <CheckCircle size={20} />
+              <span>{t("upload.success")}</span>
+            </div>
+          )}
         </div>
-      )}
-    </div>
+      </FormatContext.Provider>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,219 @@
+import React from "react";
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  Area,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  Pie,
+  PieChart,
+  Scatter,
+  ScatterChart,
+} from "recharts";
+import {
+  COLORS,
+  detectValueFormat,
+  formatChartValue,
+  getSeries,
+  seriesColor,
+  seriesKey,
+  toChartRows,
+  toScatterPoints,
+  transformChart,
+  type SortOrder,
+  type ValueFormat,
+} from "./charts";
+import { useFormatter } from "./format";
+import { useI18n } from "./i18n";
+import type { ChartData } from "./types";
+
+const CARTESIAN_TYPES = ["bar", "line", "area", "combo"];
+
+export interface ChartRendererProps {
+  chartData: ChartData;
+  height: number;
+  showLegend?: boolean;
+  showGrid?: boolean;
+  showYAxis?: boolean;
+  angledLabels?: boolean;
+  strokeWidth?: number;
+  outerRadius?: number;
+  valueFormat?: ValueFormat;
+  sort?: SortOrder;
+  topN?: number;
+}
+
+// Series de una gráfica cartesiana; en "combo" cada serie elige su forma y eje
+const renderSeries = (chartData: ChartData, strokeWidth: number) =>
+  getSeries(chartData).map((s, index) => {
+    const kind =
+      chartData.type === "combo"
+        ? s.type ?? (index === 0 ? "bar" : "line")
+        : chartData.type;
+    const color = seriesColor(s, index);
+    const key = seriesKey(index);
+    const props = {
+      dataKey: key,
+      name: s.name,
+      yAxisId: chartData.type === "combo" ? s.yAxis ?? "left" : "left",
+    };
+    // Las líneas no se apilan: sumarlas cambiaría los valores que muestran
+    const stackId = chartData.stacked ? "stack" : undefined;
+
+    switch (kind) {
+      case "line":
+        return (
+          <Line
+            key={key}
+            {...props}
+            type="monotone"
+            stroke={color}
+            strokeWidth={strokeWidth}
+          />
+        );
+      case "area":
+        return (
+          <Area
+            key={key}
+            {...props}
+            stackId={stackId}
+            type="monotone"
+            stroke={color}
+            fill={color}
+            fillOpacity={0.3}
+          />
+        );
+      default:
+        return <Bar key={key} {...props} stackId={stackId} fill={color} />;
+    }
+  });
+
+// Renderizador único para las gráficas del chat y del modal
+const ChartRenderer: React.FC<ChartRendererProps> = ({
+  chartData: source,
+  height,
+  showLegend,
+  showGrid = true,
+  showYAxis = true,
+  angledLabels,
+  strokeWidth = 2,
+  outerRadius = height * 0.3,
+  valueFormat = "auto",
+  sort = "none",
+  topN,
+}) => {
+  const chartData = transformChart(source, { sort, topN });
+  const series = getSeries(chartData);
+  const format =
+    valueFormat === "auto" ? detectValueFormat(chartData) : valueFormat;
+  const formatter = useFormatter();
+  const { t } = useI18n();
+  const formatValue = (value: unknown) =>
+    formatChartValue(value, format, formatter);
+  const formatTooltip = (value: unknown) =>
+    formatChartValue(value, format, formatter, false);
+  const legend = showLegend ?? series.length > 1;
+
+  if (CARTESIAN_TYPES.includes(chartData.type)) {
+    const angled =
+      angledLabels ?? (chartData.type === "bar" || chartData.type === "combo");
+    const rightAxis =
+      chartData.type === "combo" && series.some((s) => s.yAxis === "right");
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart
+          data={toChartRows(chartData)}
+          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+        >
+          {showGrid && <CartesianGrid strokeDasharray="3 3" />}
+          {angled ? (
+            <XAxis dataKey="name" angle={-45} textAnchor="end" height={70} />
+          ) : (
+            <XAxis dataKey="name" />
+          )}
+          <YAxis yAxisId="left" hide={!showYAxis} tickFormatter={formatValue} />
+          {rightAxis && (
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              hide={!showYAxis}
+              tickFormatter={formatValue}
+            />
+          )}
+          <Tooltip formatter={formatTooltip} />
+          {legend && <Legend />}
+          {renderSeries(chartData, strokeWidth)}
+        </ComposedChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  switch (chartData.type) {
+    case "pie": {
+      const data = toChartRows(chartData);
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <PieChart>
+            <Pie
+              data={data}
+              cx="50%"
+              cy="50%"
+              outerRadius={outerRadius}
+              fill="#8884d8"
+              dataKey={seriesKey(0)}
+              name={series[0].name}
+            >
+              {data.map((_, index) => (
+                <Cell
+                  key={`cell-${index}`}
+                  fill={COLORS[index % COLORS.length]}
+                />
+              ))}
+            </Pie>
+            <Tooltip formatter={formatTooltip} />
+            {(showLegend ?? false) && <Legend />}
+          </PieChart>
+        </ResponsiveContainer>
+      );
+    }
+    case "scatter": {
+      const [xSeries, ySeries] = series;
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <ScatterChart margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            {showGrid && <CartesianGrid strokeDasharray="3 3" />}
+            <XAxis
+              type="number"
+              dataKey="x"
+              name={ySeries ? xSeries.name : "#"}
+            />
+            <YAxis
+              type="number"
+              dataKey="y"
+              name={(ySeries ?? xSeries).name}
+              hide={!showYAxis}
+              tickFormatter={formatValue}
+            />
+            <Tooltip cursor={{ strokeDasharray: "3 3" }} />
+            {legend && <Legend />}
+            <Scatter
+              name={chartData.title}
+              data={toScatterPoints(chartData)}
+              fill="#8884d8"
+            />
+          </ScatterChart>
+        </ResponsiveContainer>
+      );
+    }
+    default:
+      return <div className="text-gray-500">{t("chart.unsupported")}</div>;
+  }
+};
+
+export default ChartRenderer;
@@ -0,0 +1,105 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { createI18n, type Language } from "./i18n";
+import Markdown from "./Markdown";
+
+const render = (source: string) =>
+  renderToStaticMarkup(<Markdown source={source} />);
+
+describe("Markdown", () => {
+  it("shifts heading levels below the app titles", () => {
+    expect(render("# Resumen\n### Detalle")).toBe(
+      '<div class="markdown"><h3>Resumen</h3><h5>Detalle</h5></div>'
+    );
+  });
+
+  it("renders ordered and unordered lists", () => {
+    expect(render("- Norte\n- Sur\n\n1. Primero\n2) Segundo")).toBe(
+      '<div class="markdown"><ul><li>Norte</li><li>Sur</li></ul>' +
+        "<ol><li>Primero</li><li>Segundo</li></ol></div>"
+    );
+  });
+
+  it("renders tables and pads short rows", () => {
+    const html = render(
+      "| Agencia | Monto |\n|---|--:|\n| Norte | 4000 |\n| Sur |"
+    );
+
+    expect(html).toContain("<thead><tr><th>Agencia</th><th>Monto</th></tr>");
+    expect(html).toContain("<tr><td>Norte</td><td>4000</td></tr>");
+    expect(html).toContain("<tr><td>Sur</td><td></td></tr>");
+  });
+
+  it("keeps fenced code verbatim", () => {
+    expect(render("```\n**no** <b>\n```")).toBe(
+      '<div class="markdown"><pre><code>**no** &lt;b&gt;</code></pre></div>'
+    );
+  });
+
+  it("formats inline code, emphasis and links", () => {
+    expect(render("**Total** _neto_ `monto` [doc](https://example.com)")).toBe(
+      '<div class="markdown"><p><strong>Total</strong> <em>neto</em> ' +
+        "<code>monto</code> " +
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer">doc</a>' +
+        "</p></div>"
+    );
+  });
+
+  it("escapes raw HTML and drops unsafe links", () => {
+    const html = render("<script>x</script> [clic](javascript:alert(1))");
+
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).not.toContain("<a");
+  });
+
+  it("joins paragraph lines with line breaks", () => {
+    expect(render("uno\ndos")).toBe(
+      '<div class="markdown"><p>uno<br/>dos</p></div>'
+    );
+  });
+
+  it("renders children after the blocks, as the streaming cursor", () => {
+    expect(
+      renderToStaticMarkup(
+        <Markdown source="Hay 2">
+          <span className="streaming-cursor" />
+        </Markdown>
+      )
+    ).toBe(
+      '<div class="markdown"><p>Hay 2</p><span class="streaming-cursor"></span></div>'
+    );
+  });
+
+  describe.each<Language>(["en", "es"])("%s message templates", (language) => {
+    const { t } = createI18n(language);
+
+    it("renders the welcome message", () => {
+      const html = render(
+        t("upload.welcome", { rows: "1,250", columns: 8, validFor: "2 days" })
+      );
+
+      expect(html).toMatch(/<li>📊 <strong>1,250 \S+<\/strong>/);
+      expect(html.match(/<li>/g)).toHaveLength(3);
+      expect(html).toContain("<strong>2 days</strong>");
+      expect(html).not.toContain("**");
+    });
+
+    it("renders the report message", () => {
+      const html = render(
+        t("report.success", {
+          fileName: "Strategic_Report_2026-01-15.docx",
+          format: t("report.formatDocx"),
+          scope: t("report.scopeBoard", { count: 3 }),
+        })
+      );
+
+      expect(html).toMatch(/<p>📥 <strong>[^<]+<\/strong><\/p>/);
+      expect(html).toMatch(
+        /<li>✅ [^<]+Strategic_Report_2026-01-15\.docx<\/li>/
+      );
+      expect(html).toContain("Microsoft Word</li>");
+      expect(html.match(/<li>/g)).toHaveLength(3);
+      expect(html).not.toContain("**");
+    });
+  });
+});
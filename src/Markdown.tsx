@@ -0,0 +1,214 @@
+import React from "react";
+
+// Solo se enlazan URLs con protocolos seguros; el resto se muestra como texto
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const INLINE_PATTERN =
+  /(`[^`]+`)|(\*\*[^*]+\*\*|(?<!\w)__[^_]+__(?!\w))|(\*[^*\s][^*]*\*|(?<!\w)_[^_\s][^_]*_(?!\w))|(\[[^\]]+\]\([^)\s]+\))|(https?:\/\/[^\s)]+)/;
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+•]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push(rest);
+      break;
+    }
+    if (match.index > 0) nodes.push(rest.slice(0, match.index));
+
+    const [token, code, bold, italic, link, url] = match;
+    const key = `${keyPrefix}-${index++}`;
+    if (code) {
+      nodes.push(<code key={key}>{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(
+        <strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>
+      );
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+    } else if (link) {
+      const [, label, href] = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(link) ?? [];
+      nodes.push(
+        SAFE_URL.test(href) ? (
+          <a key={key} href={href} target="_blank" rel="noopener noreferrer">
+            {renderInline(label, key)}
+          </a>
+        ) : (
+          label
+        )
+      );
+    } else if (url) {
+      nodes.push(
+        <a key={key} href={url} target="_blank" rel="noopener noreferrer">
+          {url}
+        </a>
+      );
+    }
+    rest = rest.slice(match.index + token.length);
+  }
+
+  return nodes;
+};
+
+const splitRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim());
+
+const isBlockStart = (line: string, next?: string) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  LIST_ITEM.test(line) ||
+  QUOTE.test(line) ||
+  (line.includes("|") && next !== undefined && TABLE_DIVIDER.test(next));
+
+const renderBlocks = (source: string): React.ReactNode[] => {
+  const lines = source.split(/\r?\n/);
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++;
+      blocks.push(
+        <pre key={key}>
+          <code>{code.join("\n")}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      // Se desplazan los niveles para no competir con los títulos de la app
+      const level = Math.min(6, heading[1].length + 2);
+      blocks.push(
+        React.createElement(`h${level}`, { key }, renderInline(heading[2], key))
+      );
+      i++;
+      continue;
+    }
+
+    if (line.includes("|") && TABLE_DIVIDER.test(lines[i + 1] ?? "")) {
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|")) {
+        rows.push(splitRow(lines[i++]));
+      }
+      blocks.push(
+        <div key={key} className="markdown-table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                {header.map((cell, c) => (
+                  <th key={c}>{renderInline(cell, `${key}-h${c}`)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r}>
+                  {header.map((_, c) => (
+                    <td key={c}>
+                      {renderInline(row[c] ?? "", `${key}-${r}-${c}`)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (!item || /^\s*\d/.test(lines[i]) !== ordered) break;
+        items.push(item[2]);
+        i++;
+      }
+      const children = items.map((item, n) => (
+        <li key={n}>{renderInline(item, `${key}-${n}`)}</li>
+      ));
+      blocks.push(
+        ordered ? <ol key={key}>{children}</ol> : <ul key={key}>{children}</ul>
+      );
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i++])![1]);
+      }
+      blocks.push(
+        <blockquote key={key}>{renderBlocks(quoted.join("\n"))}</blockquote>
+      );
+      continue;
+    }
+
+    // Párrafo: líneas consecutivas unidas con saltos de línea
+    const paragraph: string[] = [line];
+    i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !isBlockStart(lines[i], lines[i + 1])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(
+      <p key={key}>
+        {paragraph.map((text, n) => (
+          <React.Fragment key={n}>
+            {n > 0 && <br />}
+            {renderInline(text, `${key}-${n}`)}
+          </React.Fragment>
+        ))}
+      </p>
+    );
+  }
+
+  return blocks;
+};
+
+// Markdown seguro para respuestas de la IA: genera elementos de React, nunca HTML
+// crudo, así que cualquier etiqueta en el texto se muestra escapada
+const Markdown: React.FC<{ source: string; children?: React.ReactNode }> = ({
+  source,
+  children,
+}) => (
+  <div className="markdown">
+    {renderBlocks(source)}
+    {children}
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { Row } from "./csv";
+import { aggregate, groupBy, overdueFilter, percentile } from "./aggregations";
+
+const rows: Row[] = [
+  { agencia: "Norte", monto: 1000, diasMora: 0, plazo_dias: 30 },
+  { agencia: "Sur", monto: "2.000,50", diasMora: 15, plazo_dias: 60 },
+  { agencia: "Norte", monto: 3000, diasMora: 0, plazo_dias: 90 },
+  { agencia: "", monto: null, diasMora: 40, plazo_dias: 30 },
+];
+
+describe("percentile", () => {
+  it("interpolates between neighbours like PERCENTILE.INC", () => {
+    expect(percentile([40, 10, 30, 20], 50)).toBe(25);
+    expect(percentile([10, 20, 30, 40], 90)).toBeCloseTo(37);
+    expect(percentile([10, 20, 30, 40], 0)).toBe(10);
+    expect(percentile([10, 20, 30, 40], 100)).toBe(40);
+  });
+
+  it("returns null without values or outside 0..100", () => {
+    expect(percentile([], 50)).toBeNull();
+    expect(percentile([1, 2], 101)).toBeNull();
+  });
+});
+
+describe("aggregate", () => {
+  it("sums, averages and bounds the numeric cells of a column", () => {
+    expect(aggregate(rows, "sum", "monto")).toBe(6000.5);
+    expect(aggregate(rows, "mean", "monto")).toBeCloseTo(2000.17, 2);
+    expect(aggregate(rows, "min", "monto")).toBe(1000);
+    expect(aggregate(rows, "max", "monto")).toBe(3000);
+    expect(aggregate(rows, "p50", "monto")).toBe(2000.5);
+  });
+
+  it("counts rows, or only the filled cells of a column", () => {
+    expect(aggregate(rows, "count")).toBe(4);
+    expect(aggregate(rows, "count", "monto")).toBe(3);
+    expect(aggregate(rows, "count", "agencia")).toBe(3);
+  });
+
+  it("returns null when the aggregation needs a column or values", () => {
+    expect(aggregate(rows, "sum")).toBeNull();
+    expect(aggregate([], "max", "monto")).toBeNull();
+  });
+});
+
+describe("groupBy", () => {
+  it("aggregates each category and labels empty cells as N/A", () => {
+    expect(groupBy(rows, "agencia", "sum", "monto")).toEqual(
+      new Map([
+        ["Norte", 4000],
+        ["Sur", 2000.5],
+        ["N/A", 0],
+      ])
+    );
+    expect(groupBy(rows, "agencia", "count")).toEqual(
+      new Map([
+        ["Norte", 2],
+        ["Sur", 1],
+        ["N/A", 1],
+      ])
+    );
+  });
+});
+
+describe("overdueFilter", () => {
+  const columns = Object.keys(rows[0]);
+
+  it("uses the overdue days column, not any column of days", () => {
+    const isOverdue = overdueFilter(rows, columns)!;
+    expect(rows.filter(isOverdue)).toHaveLength(2);
+  });
+
+  it("ignores day columns that are not about overdue", () => {
+    expect(overdueFilter(rows, ["agencia", "plazo_dias"])).toBeNull();
+  });
+
+  it("falls back to an overdue status", () => {
+    const statusRows: Row[] = [
+      { estado: "Vigente" },
+      { estado: "Vencido" },
+      { estado: "En mora" },
+    ];
+    const isOverdue = overdueFilter(statusRows, ["estado"])!;
+    expect(statusRows.filter(isOverdue)).toEqual([
+      { estado: "Vencido" },
+      { estado: "En mora" },
+    ]);
+  });
+});
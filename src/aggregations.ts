@@ -0,0 +1,132 @@
+import type { CellValue, Row } from "./csv";
+import { parseNumeric } from "./schema";
+
+// "p90" = percentil 90; la mediana es "p50"
+export type Aggregation =
+  | "sum"
+  | "mean"
+  | "count"
+  | "min"
+  | "max"
+  | `p${number}`;
+
+// Misma etiqueta que usa el backend para agrupar celdas vacías
+export const EMPTY_GROUP_LABEL = "N/A";
+
+const PERCENTILE_PATTERN = /^p(\d+(?:\.\d+)?)$/;
+
+// Días de mora o atraso ("diasMora", "days_overdue"); no cualquier columna
+// de días, como "plazo_dias"
+const OVERDUE_DAYS_PATTERN = /mora|atras|vencid|overdue|past.?due/i;
+const OVERDUE_STATUS_PATTERN = /estado|status|situaci/i;
+const OVERDUE_VALUE_PATTERN = /vencid|overdue|mora|atrasad|castigad/i;
+
+const isPresent = (value: CellValue | undefined) =>
+  value !== null &&
+  value !== undefined &&
+  !(typeof value === "string" && value.trim() === "");
+
+// Columna numérica: todas las celdas con valor son números
+export const isNumericColumn = (rows: Row[], column: string) => {
+  const present = rows.map((row) => row[column]).filter(isPresent);
+  return present.length > 0 && present.every((v) => typeof v === "number");
+};
+
+export const findNumericColumn = (
+  rows: Row[],
+  columns: string[],
+  pattern: RegExp
+) => columns.find((col) => pattern.test(col) && isNumericColumn(rows, col));
+
+export const numericValues = (rows: Row[], column: string) =>
+  rows.flatMap((row) => {
+    const value = parseNumeric(row[column]);
+    return value === null ? [] : [value];
+  });
+
+export const sum = (values: number[]) =>
+  values.reduce((acc, value) => acc + value, 0);
+
+export const mean = (values: number[]) =>
+  values.length > 0 ? sum(values) / values.length : null;
+
+// Interpolación lineal entre las dos posiciones vecinas, como PERCENTIL.INC
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0 || p < 0 || p > 100) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Sin columna, "count" cuenta filas; con columna, solo las celdas con valor
+export const aggregate = (
+  rows: Row[],
+  aggregation: Aggregation,
+  column?: string
+): number | null => {
+  if (aggregation === "count") {
+    return column
+      ? rows.filter((row) => isPresent(row[column])).length
+      : rows.length;
+  }
+  if (!column) return null;
+  const values = numericValues(rows, column);
+  switch (aggregation) {
+    case "sum":
+      return sum(values);
+    case "mean":
+      return mean(values);
+    // reduce y no Math.min(...values): archivos grandes desbordan la pila
+    case "min":
+      return values.length > 0 ? values.reduce((a, b) => Math.min(a, b)) : null;
+    case "max":
+      return values.length > 0 ? values.reduce((a, b) => Math.max(a, b)) : null;
+    default: {
+      const match = PERCENTILE_PATTERN.exec(aggregation);
+      return match ? percentile(values, Number(match[1])) : null;
+    }
+  }
+};
+
+export const groupLabel = (value: CellValue | undefined) =>
+  isPresent(value) ? String(value) : EMPTY_GROUP_LABEL;
+
+export const groupBy = (
+  rows: Row[],
+  category: string,
+  aggregation: Aggregation,
+  measure?: string
+) => {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const label = groupLabel(row[category]);
+    const group = groups.get(label);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(label, [row]);
+    }
+  }
+  return new Map(
+    [...groups].map(([label, list]) => [
+      label,
+      aggregate(list, aggregation, measure),
+    ])
+  );
+};
+
+// Atraso: días de mora positivos o, sin esa columna, un estado "vencido"
+export const overdueFilter = (
+  rows: Row[],
+  columns: string[]
+): ((row: Row) => boolean) | null => {
+  const days = findNumericColumn(rows, columns, OVERDUE_DAYS_PATTERN);
+  if (days) return (row) => (parseNumeric(row[days]) ?? 0) > 0;
+  const status = columns.find((col) => OVERDUE_STATUS_PATTERN.test(col));
+  if (status) {
+    return (row) => OVERDUE_VALUE_PATTERN.test(String(row[status] ?? ""));
+  }
+  return null;
+};
@@ -0,0 +1,455 @@
+import { createContext, useContext } from "react";
+import {
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  toApiError,
+} from "./apiErrors";
+import type { Language } from "./i18n";
+import type { ReportOutlineSection } from "./reportBoard";
+import { withRetry } from "./retry";
+import type {
+  AnalysisResponse,
+  ApiResponse,
+  ChartData,
+  DatasetJoin,
+} from "./types";
+
+const DEFAULT_API_BASE = "https://excel-ai-backend-production.up.railway.app";
+const DEFAULT_TIMEOUT_MS = 60_000;
+// La subida del archivo completo ocurre antes de que llegue la respuesta
+const DEFAULT_UPLOAD_TIMEOUT_MS = 5 * 60_000;
+
+export interface ChatRequest {
+  question: string;
+  sessionId?: string;
+  // Idioma de la interfaz, para que la IA responda en el mismo
+  language?: Language;
+  // Dataset al que apunta la pregunta; sin él, todos los de la sesión
+  datasetId?: string;
+  joins?: DatasetJoin[];
+}
+
+export interface ReportRequest {
+  sessionId: string;
+  // Esquema armado en el tablero; sin él el backend genera el informe completo
+  outline?: ReportOutlineSection[];
+}
+
+// Eventos de una respuesta en streaming: texto incremental y adjuntos al final
+export interface ChatStreamHandlers {
+  onToken: (text: string) => void;
+  onCalculations?: (calculations: AnalysisResponse["calculations"]) => void;
+  onChartData?: (chartData: ChartData) => void;
+}
+
+// Avance de la descarga del informe; `total` es null sin Content-Length
+export interface ReportOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number | null) => void;
+}
+
+// Avance de la subida en bytes enviados
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// Con `uploadId` se reanuda una subida por partes interrumpida
+export interface ChunkedUploadRequest {
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  fingerprint: string;
+  uploadId?: string;
+}
+
+// Subida por partes abierta en el backend; `received` son los índices ya guardados
+export interface ChunkedUpload {
+  uploadId: string;
+  received: number[];
+}
+
+export interface UploadFields {
+  question?: string;
+  sheet?: string;
+  // Idioma de la interfaz, para la respuesta a la pregunta inicial
+  language?: Language;
+  // Agrega el archivo como dataset a una sesión existente
+  sessionId?: string;
+}
+
+// Contrato común para el backend real y cualquier implementación alternativa
+export interface ApiClient {
+  upload(formData: FormData, options?: UploadOptions): Promise<ApiResponse>;
+  startChunkedUpload(
+    request: ChunkedUploadRequest,
+    signal?: AbortSignal
+  ): Promise<ChunkedUpload>;
+  uploadChunk(
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    options?: UploadOptions
+  ): Promise<void>;
+  completeChunkedUpload(
+    uploadId: string,
+    fields: UploadFields,
+    signal?: AbortSignal
+  ): Promise<ApiResponse>;
+  chat(request: ChatRequest, signal?: AbortSignal): Promise<ApiResponse>;
+  chatStream(
+    request: ChatRequest,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<AnalysisResponse>;
+  generateReportWord(
+    request: ReportRequest,
+    options?: ReportOptions
+  ): Promise<Blob>;
+}
+
+export interface HttpClientOptions {
+  // Espera máxima hasta que el servidor empieza a responder
+  timeoutMs?: number;
+  uploadTimeoutMs?: number;
+  // Reintentos de las llamadas idempotentes ante fallas transitorias
+  retries?: number;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Lee un cuerpo text/event-stream y emite cada evento completo
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+
+  // El consumidor puede dejar de leer en "done" o con un error: se cancela
+  // el cuerpo para cerrar la conexión y liberar el lector
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : blocks.pop() ?? "";
+      for (const block of blocks) {
+        const parsed = parseBlock(block);
+        if (parsed) yield parsed;
+      }
+      if (done) return;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+// Orden de prioridad: config en runtime (window.__APP_CONFIG__), variable de Vite, producción
+export const resolveApiBase = (): string => {
+  const base =
+    window.__APP_CONFIG__?.apiBase ||
+    import.meta.env.VITE_API_BASE ||
+    DEFAULT_API_BASE;
+  return base.replace(/\/+$/, "");
+};
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const parseHeaders = (raw: string) =>
+  new Headers(
+    raw
+      .trim()
+      .split(/[\r\n]+/)
+      .filter(Boolean)
+      .map((line): [string, string] => {
+        const separator = line.indexOf(":");
+        return [
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim(),
+        ];
+      })
+  );
+
+// Misma prioridad que la URL: config en runtime, variable de Vite, valor por defecto
+export const resolveTimeout = (): number =>
+  Number(
+    window.__APP_CONFIG__?.timeoutMs || import.meta.env.VITE_API_TIMEOUT_MS
+  ) || DEFAULT_TIMEOUT_MS;
+
+interface RequestSettings {
+  timeoutMs?: number;
+  // Solo se reintenta lo que no cambia el estado del backend
+  idempotent?: boolean;
+}
+
+// Cliente HTTP contra el backend de Excel AI
+export const createHttpClient = (
+  baseUrl = resolveApiBase(),
+  {
+    timeoutMs = resolveTimeout(),
+    uploadTimeoutMs = Math.max(timeoutMs, DEFAULT_UPLOAD_TIMEOUT_MS),
+    retries = 2,
+  }: HttpClientOptions = {}
+): ApiClient => {
+  // Un intento: el plazo corre hasta recibir los headers, así el streaming
+  // posterior no queda cortado por el timeout
+  const send = async (
+    endpoint: string,
+    options: RequestInit,
+    timeout: number
+  ): Promise<Response> => {
+    const controller = new AbortController();
+    const signals = options.signal
+      ? [options.signal, controller.signal]
+      : [controller.signal];
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${endpoint}`, {
+        headers:
+          options.body instanceof FormData
+            ? {}
+            : { "Content-Type": "application/json" },
+        ...options,
+        signal: AbortSignal.any(signals),
+      });
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      if (controller.signal.aborted) throw new TimeoutError(timeout);
+      if (err instanceof TypeError) throw new NetworkError(err.message);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) throw await toApiError(response);
+    return response;
+  };
+
+  // XMLHttpRequest en lugar de fetch: es la única forma de conocer el avance
+  // de la subida. El plazo cubre el envío completo
+  const sendWithProgress = async (
+    method: string,
+    endpoint: string,
+    body: XMLHttpRequestBodyInit,
+    { signal, onProgress }: UploadOptions,
+    timeout: number
+  ): Promise<Response> => {
+    const response = await new Promise<Response>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const abort = () => xhr.abort();
+      xhr.open(method, `${baseUrl}${endpoint}`);
+      xhr.timeout = timeout;
+      xhr.responseType = "blob";
+      xhr.upload.onprogress = (e) => onProgress?.(e.loaded, e.total);
+      xhr.onload = () => {
+        signal?.removeEventListener("abort", abort);
+        resolve(
+          new Response(
+            NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response,
+            {
+              status: xhr.status,
+              statusText: xhr.statusText,
+              headers: parseHeaders(xhr.getAllResponseHeaders()),
+            }
+          )
+        );
+      };
+      xhr.onerror = () => reject(new NetworkError());
+      xhr.ontimeout = () => reject(new TimeoutError(timeout));
+      xhr.onabort = () => reject(new DOMException("Aborted", "AbortError"));
+      if (signal?.aborted) {
+        reject(new DOMException("Aborted", "AbortError"));
+        return;
+      }
+      signal?.addEventListener("abort", abort, { once: true });
+      xhr.send(body);
+    });
+
+    if (!response.ok) throw await toApiError(response);
+    return response;
+  };
+
+  const request = (
+    endpoint: string,
+    options: RequestInit = {},
+    { timeoutMs: timeout = timeoutMs, idempotent = false }: RequestSettings = {}
+  ): Promise<Response> =>
+    idempotent
+      ? withRetry(() => send(endpoint, options, timeout), {
+          retries,
+          signal: options.signal ?? undefined,
+        })
+      : send(endpoint, options, timeout);
+
+  return {
+    upload: async (formData, options = {}) => {
+      // Cada subida crea una sesión nueva: no se reintenta
+      const response = await sendWithProgress(
+        "POST",
+        "/api/upload",
+        formData,
+        options,
+        uploadTimeoutMs
+      );
+      return response.json();
+    },
+    startChunkedUpload: async (body, signal) => {
+      // Reanudar un `uploadId` es idempotente; empezar una subida nueva crea
+      // otra en el servidor con cada reintento
+      const response = await request(
+        "/api/upload/chunked",
+        { method: "POST", body: JSON.stringify(body), signal },
+        { idempotent: body.uploadId !== undefined }
+      );
+      return response.json();
+    },
+    uploadChunk: async (uploadId, index, chunk, options = {}) => {
+      await sendWithProgress(
+        "PUT",
+        `/api/upload/chunked/${encodeURIComponent(uploadId)}/chunks/${index}`,
+        chunk,
+        options,
+        uploadTimeoutMs
+      );
+    },
+    // El backend arma el archivo y lo procesa como una subida normal
+    completeChunkedUpload: async (uploadId, fields, signal) => {
+      const response = await request(
+        `/api/upload/chunked/${encodeURIComponent(uploadId)}/complete`,
+        { method: "POST", body: JSON.stringify(fields), signal },
+        { timeoutMs: uploadTimeoutMs }
+      );
+      return response.json();
+    },
+    chat: async (body, signal) => {
+      // Cada pregunta queda en el historial de la sesión y consume una
+      // respuesta de la IA: no se reintenta sola, el usuario tiene "Reintentar"
+      const response = await request("/api/chat", {
+        method: "POST",
+        body: JSON.stringify(body),
+        signal,
+      });
+      return response.json();
+    },
+    // SSE (token/calculations/chart/done/error); si el servidor responde JSON
+    // se emite completo y si responde texto plano se trata como chunks de texto
+    chatStream: async (body, handlers, signal) => {
+      // Igual que `chat`: sin reintentos automáticos
+      const response = await request("/api/chat", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal,
+      });
+      const contentType = response.headers.get("Content-Type") ?? "";
+      const result: AnalysisResponse = { type: "analysis", aiResponse: "" };
+
+      if (contentType.includes("application/json") || !response.body) {
+        const data: ApiResponse = await response.json();
+        Object.assign(result, data.response);
+        handlers.onToken(result.aiResponse);
+        if (result.calculations) handlers.onCalculations?.(result.calculations);
+        if (result.chartData) handlers.onChartData?.(result.chartData);
+        return result;
+      }
+
+      if (!contentType.includes("text/event-stream")) {
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        for (;;) {
+          const { done, value } = await reader.read();
+          const text = decoder.decode(value, { stream: !done });
+          if (text) {
+            result.aiResponse += text;
+            handlers.onToken(text);
+          }
+          if (done) return result;
+        }
+      }
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case "token":
+            result.aiResponse += payload.text;
+            handlers.onToken(payload.text);
+            break;
+          case "calculations":
+            result.calculations = payload;
+            handlers.onCalculations?.(payload);
+            break;
+          case "chart":
+            result.chartData = payload;
+            handlers.onChartData?.(payload);
+            break;
+          case "error":
+            // La UI muestra error.server; el texto solo queda para el log
+            throw new ServerError(payload.error || "Stream failed");
+          case "done":
+            if (payload?.type) result.type = payload.type;
+            return result;
+        }
+      }
+      return result;
+    },
+    generateReportWord: async (body, { signal, onProgress } = {}) => {
+      // Los reintentos del informe los hace el job, que los muestra en la UI
+      const response = await request("/api/generate-report-word", {
+        method: "POST",
+        body: JSON.stringify(body),
+        signal,
+      });
+      const read = async (): Promise<Blob> => {
+        if (!response.body || !onProgress) return response.blob();
+
+        const length = Number(response.headers.get("Content-Length"));
+        const total = length > 0 ? length : null;
+        const reader = response.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let loaded = 0;
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          chunks.push(value);
+          loaded += value.length;
+          onProgress(loaded, total);
+        }
+        return new Blob(chunks, {
+          type: response.headers.get("Content-Type") ?? undefined,
+        });
+      };
+      // Un corte de red a mitad de la descarga llega como TypeError de fetch
+      try {
+        return await read();
+      } catch (err) {
+        if (err instanceof TypeError) throw new NetworkError(err.message);
+        throw err;
+      }
+    },
+  };
+};
+
+export const ApiClientContext = createContext<ApiClient>(createHttpClient());
+
+export const useApiClient = (): ApiClient => useContext(ApiClientContext);
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import {
+  isTransientError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "./apiErrors";
+
+describe("isTransientError", () => {
+  it("retries network failures, timeouts and server errors", () => {
+    expect(isTransientError(new NetworkError())).toBe(true);
+    expect(isTransientError(new TimeoutError(30_000))).toBe(true);
+    expect(isTransientError(new ServerError("Bad gateway", 502))).toBe(true);
+  });
+
+  it("does not retry validation errors or coding bugs", () => {
+    expect(isTransientError(new ValidationError("Missing file"))).toBe(false);
+    expect(
+      isTransientError(new TypeError("Cannot read properties of undefined"))
+    ).toBe(false);
+  });
+});
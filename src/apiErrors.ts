@@ -0,0 +1,196 @@
+import type { Translate } from "./i18n";
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "validation"
+  | "session-expired"
+  | "rate-limited"
+  | "server";
+
+// Base de los errores del backend; `kind` decide el mensaje y la acción en la UI
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+
+  constructor(kind: ApiErrorKind, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+  }
+}
+
+// No hubo respuesta: sin conexión, DNS, CORS o servidor caído
+export class NetworkError extends ApiError {
+  constructor(message = "Network request failed") {
+    super("network", message);
+    this.name = "NetworkError";
+  }
+}
+
+// El servidor no empezó a responder dentro del plazo
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super("timeout", `Request timed out after ${timeoutMs / 1000}s`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Respuesta HTTP con error; conserva el status para decidir si reintentar
+export class HttpError extends ApiError {
+  readonly status: number;
+
+  constructor(message: string, status: number, kind: ApiErrorKind = "server") {
+    super(kind, message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+// El backend rechazó los datos enviados (archivo, pregunta o parámetros)
+export class ValidationError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status, "validation");
+    this.name = "ValidationError";
+  }
+}
+
+// El backend ya no reconoce la sesión (vencida o eliminada)
+export class SessionExpiredError extends HttpError {
+  constructor(message = "Session not found or expired", status = 410) {
+    super(message, status, "session-expired");
+    this.name = "SessionExpiredError";
+  }
+}
+
+// 429; `retryAfterMs` viene del header Retry-After cuando existe
+export class RateLimitedError extends HttpError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super(message, 429, "rate-limited");
+    this.name = "RateLimitedError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends HttpError {
+  constructor(message: string, status = 500) {
+    super(message, status, "server");
+    this.name = "ServerError";
+  }
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === "AbortError";
+
+// Fallas que pueden resolverse solas: red caída, timeouts, 5xx y 429. Los
+// TypeError de fetch llegan ya como NetworkError; cualquier otro es un error
+// de código y no se reintenta
+export const isTransientError = (err: unknown) =>
+  err instanceof ApiError &&
+  ["network", "timeout", "rate-limited", "server"].includes(err.kind);
+
+const SESSION_GONE_PATTERN =
+  /sesi[oó]n.*(expir|no encontrada|no existe)|session.*(expired|not found)/i;
+
+// Retry-After admite segundos o una fecha HTTP
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Mensaje del cuerpo si es JSON; las páginas HTML de un proxy (502, 504) se
+// descartan para no mostrar markup al usuario
+const readErrorMessage = async (response: Response) => {
+  const text = await response.text().catch(() => "");
+  try {
+    const data = JSON.parse(text);
+    const message = data?.error ?? data?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // cuerpo no JSON
+  }
+  const plain = text.trim();
+  return plain && !plain.startsWith("<") && plain.length <= 200
+    ? plain
+    : `${response.status} ${response.statusText}`.trim();
+};
+
+// Convierte una respuesta no-OK en el error tipado que le corresponde
+export const toApiError = async (response: Response): Promise<HttpError> => {
+  const message = await readErrorMessage(response);
+  const { status } = response;
+  if (status === 410 || SESSION_GONE_PATTERN.test(message)) {
+    return new SessionExpiredError(message, status);
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      message,
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
+  }
+  if (status === 408) return new HttpError(message, status, "timeout");
+  if (status >= 500) return new ServerError(message, status);
+  return new ValidationError(message, status);
+};
+
+export type RecoveryAction = "retry" | "reupload" | "dismiss";
+
+export interface ErrorDescription {
+  kind: ApiErrorKind | "unknown";
+  message: string;
+  action: RecoveryAction;
+}
+
+// Mensaje para el usuario y acción sugerida según el tipo de error
+export const describeError = (err: unknown, t: Translate): ErrorDescription => {
+  if (!(err instanceof ApiError)) {
+    return {
+      kind: "unknown",
+      message: err instanceof Error ? err.message : t("error.unknown"),
+      action: "dismiss",
+    };
+  }
+  switch (err.kind) {
+    case "network":
+      return { kind: err.kind, message: t("error.network"), action: "retry" };
+    case "timeout":
+      return { kind: err.kind, message: t("error.timeout"), action: "retry" };
+    case "validation":
+      return {
+        kind: err.kind,
+        message: t("error.validation", { detail: err.message }),
+        action: "dismiss",
+      };
+    case "session-expired":
+      return {
+        kind: err.kind,
+        message: t("error.sessionExpired"),
+        action: "reupload",
+      };
+    case "rate-limited": {
+      const waitMs = err instanceof RateLimitedError ? err.retryAfterMs : null;
+      return {
+        kind: err.kind,
+        message: waitMs
+          ? t("error.rateLimitedWait", { seconds: Math.ceil(waitMs / 1000) })
+          : t("error.rateLimited"),
+        action: "retry",
+      };
+    }
+    case "server":
+      return {
+        kind: err.kind,
+        message: t("error.server", {
+          status: err instanceof HttpError ? err.status : 500,
+        }),
+        action: "retry",
+      };
+  }
+};
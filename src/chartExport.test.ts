@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { chartToCsvBlob, legendEntries } from "./chartExport";
+import type { ChartData } from "./types";
+
+const chart = (overrides: Partial<ChartData> = {}): ChartData => ({
+  type: "bar",
+  title: "Saldo por agencia",
+  labels: ["Norte", "Sur"],
+  data: [2900, 1500],
+  ...overrides,
+});
+
+describe("chartToCsvBlob", () => {
+  it("neutralizes labels that a spreadsheet would run as formulas", async () => {
+    const text = await chartToCsvBlob(
+      chart({
+        labels: ['=HYPERLINK("x")', "+1", "@SUM(A1)", "-a", "Norte"],
+        data: [1, 2, 3, -4, 5],
+      })
+    ).text();
+
+    expect(text.split("\r\n").slice(1)).toEqual([
+      `"'=HYPERLINK(""x"")",1`,
+      "'+1,2",
+      "'@SUM(A1),3",
+      "'-a,-4",
+      "Norte,5",
+    ]);
+  });
+});
+
+describe("legendEntries", () => {
+  it("lists pie categories with their slice colors", () => {
+    expect(legendEntries(chart({ type: "pie" }))).toEqual([
+      { name: "Norte", color: "#8884d8" },
+      { name: "Sur", color: "#82ca9d" },
+    ]);
+  });
+
+  it("lists series only when there is more than one", () => {
+    expect(legendEntries(chart())).toEqual([]);
+    expect(
+      legendEntries(
+        chart({
+          data: undefined,
+          series: [
+            { name: "Monto", data: [4000, 2000] },
+            { name: "Saldo", data: [2900, 1500], color: "#111111" },
+          ],
+        })
+      )
+    ).toEqual([
+      { name: "Monto", color: "#8884d8" },
+      { name: "Saldo", color: "#111111" },
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+import * as XLSX from "xlsx";
+import { COLORS, getSeries, seriesColor } from "./charts";
+import { blobToDataUrl } from "./download";
+import type { ChartData } from "./types";
+
+const TITLE_HEIGHT = 40;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_PADDING = 12;
+const LEGEND_SWATCH = 10;
+// Ancho aproximado de un carácter a 12px: el SVG clonado no se puede medir
+const LEGEND_CHAR_WIDTH = 7;
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export interface LegendEntry {
+  name: string;
+  color: string;
+}
+
+// Las mismas entradas que la leyenda de recharts, que es HTML y no queda
+// dentro del SVG: categorías en la torta, series si hay más de una
+export const legendEntries = (chart: ChartData): LegendEntry[] => {
+  if (chart.type === "pie") {
+    return chart.labels.map((name, i) => ({
+      name,
+      color: COLORS[i % COLORS.length],
+    }));
+  }
+  if (chart.type === "scatter") return [];
+  const series = getSeries(chart);
+  return series.length > 1
+    ? series.map((s, i) => ({ name: s.name, color: seriesColor(s, i) }))
+    : [];
+};
+
+// Reparte las entradas en filas centradas que caben en `width`
+const layoutLegend = (entries: LegendEntry[], width: number) => {
+  const rows: { entry: LegendEntry; width: number }[][] = [];
+  let current: { entry: LegendEntry; width: number }[] = [];
+  let used = 0;
+  for (const entry of entries) {
+    const itemWidth =
+      LEGEND_SWATCH + 6 + entry.name.length * LEGEND_CHAR_WIDTH + 16;
+    if (current.length > 0 && used + itemWidth > width - LEGEND_PADDING * 2) {
+      rows.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push({ entry, width: itemWidth });
+    used += itemWidth;
+  }
+  if (current.length > 0) rows.push(current);
+  return rows;
+};
+
+const buildLegend = (entries: LegendEntry[], width: number, top: number) => {
+  const group = document.createElementNS(SVG_NS, "g");
+  const rows = layoutLegend(entries, width);
+  rows.forEach((row, r) => {
+    const rowWidth = row.reduce((acc, item) => acc + item.width, 0);
+    let x = (width - rowWidth) / 2;
+    const y = top + LEGEND_PADDING / 2 + r * LEGEND_ROW_HEIGHT;
+    for (const { entry, width: itemWidth } of row) {
+      const swatch = document.createElementNS(SVG_NS, "rect");
+      swatch.setAttribute("x", String(x));
+      swatch.setAttribute("y", String(y + 4));
+      swatch.setAttribute("width", String(LEGEND_SWATCH));
+      swatch.setAttribute("height", String(LEGEND_SWATCH));
+      swatch.setAttribute("fill", entry.color);
+      const label = document.createElementNS(SVG_NS, "text");
+      label.setAttribute("x", String(x + LEGEND_SWATCH + 6));
+      label.setAttribute("y", String(y + 13));
+      label.setAttribute("font-size", "12");
+      label.setAttribute("fill", "#374151");
+      label.textContent = entry.name;
+      group.append(swatch, label);
+      x += itemWidth;
+    }
+  });
+  return {
+    group,
+    height:
+      rows.length > 0 ? rows.length * LEGEND_ROW_HEIGHT + LEGEND_PADDING : 0,
+  };
+};
+
+export const findChartSvg = (container: HTMLElement | null) =>
+  container?.querySelector<SVGSVGElement>("svg.recharts-surface") ?? null;
+
+// Copia autónoma del SVG de recharts con fondo blanco, el título arriba y la
+// leyenda abajo
+export const buildExportSvg = (
+  svg: SVGSVGElement,
+  title: string,
+  legend: LegendEntry[] = []
+) => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const legendBlock = buildLegend(legend, width, TITLE_HEIGHT + height);
+  const totalHeight = height + TITLE_HEIGHT + legendBlock.height;
+
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(totalHeight));
+  clone.setAttribute("viewBox", `0 0 ${width} ${totalHeight}`);
+  clone.setAttribute("font-family", "Inter, Arial, sans-serif");
+
+  const content = document.createElementNS(SVG_NS, "g");
+  content.setAttribute("transform", `translate(0, ${TITLE_HEIGHT})`);
+  while (clone.firstChild) content.appendChild(clone.firstChild);
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", "#ffffff");
+
+  const heading = document.createElementNS(SVG_NS, "text");
+  heading.setAttribute("x", String(width / 2));
+  heading.setAttribute("y", "26");
+  heading.setAttribute("text-anchor", "middle");
+  heading.setAttribute("font-size", "16");
+  heading.setAttribute("font-weight", "600");
+  heading.setAttribute("fill", "#1f2937");
+  heading.textContent = title;
+
+  clone.append(background, heading, content, legendBlock.group);
+  return {
+    markup: new XMLSerializer().serializeToString(clone),
+    width,
+    height: totalHeight,
+  };
+};
+
+export const svgToPngBlob = (
+  markup: string,
+  width: number,
+  height: number,
+  scale = 2
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(
+      new Blob([markup], { type: "image/svg+xml;charset=utf-8" })
+    );
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not render PNG"))
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render chart image"));
+    };
+    image.src = url;
+  });
+
+export const canCopyImages = () =>
+  !!navigator.clipboard?.write && typeof ClipboardItem !== "undefined";
+
+export const copyImageToClipboard = async (png: Blob) => {
+  if (!canCopyImages()) {
+    throw new Error("Clipboard images are not supported in this browser");
+  }
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+};
+
+// Tabla etiqueta + una columna por serie
+const toTable = (chart: ChartData): (string | number)[][] => {
+  const series = getSeries(chart);
+  return [
+    ["label", ...series.map((s) => s.name)],
+    ...chart.labels.map((label, i) => [
+      label,
+      ...series.map((s) => s.data[i] ?? ""),
+    ]),
+  ];
+};
+
+// Un texto que empieza con = + - @ se interpretaría como fórmula al abrir el
+// CSV en una hoja de cálculo: se antepone un apóstrofo
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number) => {
+  const text =
+    typeof value === "string" && FORMULA_START.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const chartToCsvBlob = (chart: ChartData) =>
+  new Blob(
+    [
+      "\uFEFF" +
+        toTable(chart)
+          .map((row) => row.map(escapeCsv).join(","))
+          .join("\r\n"),
+    ],
+    { type: "text/csv;charset=utf-8" }
+  );
+
+export const chartToXlsxBlob = (chart: ChartData) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(toTable(chart)),
+    "Chart data"
+  );
+  const buffer: ArrayBuffer = XLSX.write(workbook, {
+    type: "array",
+    bookType: "xlsx",
+  });
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+// PNG en data URL de la gráfica renderizada dentro de `container`
+export const captureChartImage = async (
+  container: HTMLElement | null,
+  chart: ChartData
+): Promise<string | null> => {
+  const svg = findChartSvg(container);
+  if (!svg) return null;
+  const { markup, width, height } = buildExportSvg(
+    svg,
+    chart.title,
+    legendEntries(chart)
+  );
+  return blobToDataUrl(await svgToPngBlob(markup, width, height));
+};
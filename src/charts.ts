@@ -0,0 +1,118 @@
+import { defaultFormatter, type NumberFormatter } from "./format";
+import type { ChartData, ChartSeries } from "./types";
+
+export const COLORS = [
+  "#8884d8",
+  "#82ca9d",
+  "#ffc658",
+  "#ff7300",
+  "#8dd1e1",
+  "#d084d0",
+  "#ffb347",
+];
+
+export type ChartRow = { name: string } & Record<
+  string,
+  string | number | null
+>;
+
+// El payload de una sola serie (`data`) se trata como la serie "value"
+export const getSeries = (chart: ChartData): ChartSeries[] =>
+  chart.series?.length
+    ? chart.series
+    : [{ name: "value", data: chart.data ?? [] }];
+
+// Claves neutras para recharts: los nombres de serie pueden contener puntos
+export const seriesKey = (index: number) => `s${index}`;
+
+export const seriesColor = (series: ChartSeries, index: number) =>
+  series.color ?? COLORS[index % COLORS.length];
+
+export const toChartRows = (chart: ChartData): ChartRow[] => {
+  const series = getSeries(chart);
+  return chart.labels.map((label, i) => {
+    const row: ChartRow = { name: label };
+    series.forEach((s, j) => {
+      row[seriesKey(j)] = s.data[i] ?? null;
+    });
+    return row;
+  });
+};
+
+export const toScatterPoints = (chart: ChartData) => {
+  const [xSeries, ySeries] = getSeries(chart);
+  return chart.labels.map((label, i) => ({
+    name: label,
+    x: ySeries ? xSeries.data[i] : i + 1,
+    y: ySeries ? ySeries.data[i] : xSeries.data[i],
+  }));
+};
+
+export type ValueFormat =
+  | "auto"
+  | "number"
+  | "currency"
+  | "percent"
+  | "thousands";
+export type SortOrder = "none" | "asc" | "desc";
+
+const PERCENT_HINT = /%|tasa|rate|porcentaje|percent/i;
+const CURRENCY_HINT = /\$|monto|saldo|importe|usd|amount|balance/i;
+
+// Deduce el formato a partir del título y los nombres de serie
+export const detectValueFormat = (
+  chart: ChartData
+): Exclude<ValueFormat, "auto"> => {
+  const text = [chart.title, ...getSeries(chart).map((s) => s.name)].join(" ");
+  if (PERCENT_HINT.test(text)) return "percent";
+  if (CURRENCY_HINT.test(text)) return "currency";
+  return "number";
+};
+
+// Los ejes usan notación compacta; los tooltips pueden pedir el valor completo
+export const formatChartValue = (
+  value: unknown,
+  format: Exclude<ValueFormat, "auto">,
+  formatter: NumberFormatter = defaultFormatter,
+  compact = true
+): string => {
+  if (typeof value !== "number") return String(value ?? "");
+  switch (format) {
+    case "currency":
+      return formatter.currency(value, compact);
+    case "percent":
+      return formatter.percent(value);
+    case "thousands":
+      return formatter.compact(value);
+    default:
+      return formatter.number(value);
+  }
+};
+
+// Ordena por la primera serie y se queda con las N categorías principales
+export const transformChart = (
+  chart: ChartData,
+  { sort = "none", topN }: { sort?: SortOrder; topN?: number }
+): ChartData => {
+  if (chart.type === "scatter" || (sort === "none" && !topN)) return chart;
+
+  const series = getSeries(chart);
+  let order = chart.labels.map((_, i) => i);
+  if (sort !== "none" || topN) {
+    const direction = sort === "asc" ? 1 : -1;
+    const sorted = [...order].sort(
+      (a, b) =>
+        direction * ((series[0].data[a] ?? 0) - (series[0].data[b] ?? 0))
+    );
+    order = topN ? sorted.slice(0, topN) : sorted;
+    // Top-N sin orden explícito conserva el orden original de las categorías
+    if (sort === "none") order.sort((a, b) => a - b);
+  }
+
+  return {
+    ...chart,
+    labels: order.map((i) => chart.labels[i]),
+    data: undefined,
+    series: series.map((s) => ({ ...s, data: order.map((i) => s.data[i]) })),
+  };
+};
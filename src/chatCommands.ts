@@ -0,0 +1,222 @@
+import type { MessageKey, TranslateParams } from "./i18n";
+import type { ChartType, Message } from "./types";
+
+export type ExportFormat = "md" | "html" | "json";
+
+export type SlashCommand =
+  | { type: "report" }
+  | { type: "clear" }
+  | { type: "export"; format: ExportFormat }
+  | { type: "chart"; chartType: ChartType; column: string };
+
+export type CommandResult =
+  | { ok: true; command: SlashCommand }
+  | { ok: false; error: MessageKey; params?: TranslateParams };
+
+// Reemplazo de value.slice(start, end) por `insert` al aceptar una sugerencia
+export interface Completion {
+  label: string;
+  detail?: MessageKey;
+  start: number;
+  end: number;
+  insert: string;
+}
+
+export const SLASH_COMMANDS: {
+  name: SlashCommand["type"];
+  usage: string;
+  description: MessageKey;
+  takesArgs: boolean;
+}[] = [
+  {
+    name: "report",
+    usage: "/report",
+    description: "command.report",
+    takesArgs: false,
+  },
+  {
+    name: "chart",
+    usage: "/chart bar <column>",
+    description: "command.chart",
+    takesArgs: true,
+  },
+  {
+    name: "clear",
+    usage: "/clear",
+    description: "command.clear",
+    takesArgs: false,
+  },
+  {
+    name: "export",
+    usage: "/export md|html|json",
+    description: "command.export",
+    takesArgs: true,
+  },
+];
+
+export const COMMAND_CHART_TYPES: ChartType[] = ["bar", "line", "area", "pie"];
+const EXPORT_FORMATS: ExportFormat[] = ["md", "html", "json"];
+const MAX_COMPLETIONS = 8;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Primero las que empiezan con la búsqueda, después las que la contienen
+export const matchColumns = (columns: string[], query: string) => {
+  const q = normalize(query);
+  const starts = columns.filter((col) => col.toLowerCase().startsWith(q));
+  const contains = columns.filter(
+    (col) => !starts.includes(col) && col.toLowerCase().includes(q)
+  );
+  return [...starts, ...contains].slice(0, MAX_COMPLETIONS);
+};
+
+const findColumn = (columns: string[], name: string) =>
+  columns.find((col) => normalize(col) === normalize(name));
+
+const slashCompletions = (
+  before: string,
+  caret: number,
+  columns: string[]
+): Completion[] => {
+  const [name, ...args] = before.slice(1).split(" ");
+  const argText = args.join(" ");
+  const argStart = caret - argText.length;
+
+  if (args.length === 0) {
+    return SLASH_COMMANDS.filter((command) =>
+      command.name.startsWith(normalize(name))
+    ).map((command) => ({
+      label: command.usage,
+      detail: command.description,
+      start: 0,
+      end: caret,
+      insert: `/${command.name}${command.takesArgs ? " " : ""}`,
+    }));
+  }
+
+  if (name === "export" && args.length === 1) {
+    return EXPORT_FORMATS.filter((format) =>
+      format.startsWith(normalize(argText))
+    ).map((format) => ({
+      label: format,
+      start: argStart,
+      end: caret,
+      insert: format,
+    }));
+  }
+
+  if (name === "chart" && args.length === 1) {
+    return COMMAND_CHART_TYPES.filter((type) =>
+      type.startsWith(normalize(argText))
+    ).map((type) => ({
+      label: type,
+      start: argStart,
+      end: caret,
+      insert: `${type} `,
+    }));
+  }
+
+  if (name === "chart") {
+    const query = args.slice(1).join(" ");
+    return matchColumns(columns, query).map((col) => ({
+      label: col,
+      detail: "command.column",
+      start: caret - query.length,
+      end: caret,
+      insert: col,
+    }));
+  }
+
+  return [];
+};
+
+// Sugerencias para la posición del cursor: comandos si el texto empieza con
+// "/", columnas después de "@" o "["
+export const getCompletions = (
+  value: string,
+  caret: number,
+  columns: string[]
+): Completion[] => {
+  const before = value.slice(0, caret);
+  if (value.startsWith("/")) {
+    return pending(value, slashCompletions(before, caret, columns));
+  }
+
+  const match = /(^|[\s(])([@[])([^@[\]\n]*)$/.exec(before);
+  if (!match) return [];
+  const [, , trigger, query] = match;
+  const closes = trigger === "[" && value[caret] === "]";
+  return pending(
+    value,
+    matchColumns(columns, query).map((col) => ({
+      label: col,
+      detail: "command.column",
+      start: caret - query.length - 1,
+      end: closes ? caret + 1 : caret,
+      insert: trigger === "[" ? `[${col}]` : col,
+    }))
+  );
+};
+
+// Lo ya escrito tal cual no se vuelve a sugerir, así Enter envía
+const pending = (value: string, completions: Completion[]) =>
+  completions.filter(
+    (completion) =>
+      value.slice(completion.start, completion.end) !== completion.insert
+  );
+
+export const applyCompletion = (value: string, completion: Completion) => ({
+  value:
+    value.slice(0, completion.start) +
+    completion.insert +
+    value.slice(completion.end),
+  caret: completion.start + completion.insert.length,
+});
+
+// null si el texto no es un comando; si lo es, el comando o el motivo del error
+export const parseSlashCommand = (
+  input: string,
+  columns: string[]
+): CommandResult | null => {
+  const text = input.trim();
+  if (!text.startsWith("/")) return null;
+  const [name, ...args] = text.slice(1).split(/\s+/);
+
+  switch (name.toLowerCase()) {
+    case "report":
+      return { ok: true, command: { type: "report" } };
+    case "clear":
+      return { ok: true, command: { type: "clear" } };
+    case "export": {
+      const format = normalize(args[0] ?? "md") as ExportFormat;
+      return EXPORT_FORMATS.includes(format)
+        ? { ok: true, command: { type: "export", format } }
+        : { ok: false, error: "command.exportUsage" };
+    }
+    case "chart": {
+      const [type, ...rest] = args;
+      const chartType = normalize(type ?? "") as ChartType;
+      const name = rest.join(" ").replace(/^\[|\]$/g, "");
+      if (!COMMAND_CHART_TYPES.includes(chartType) || !name) {
+        return { ok: false, error: "command.chartUsage" };
+      }
+      const column = findColumn(columns, name);
+      return column
+        ? { ok: true, command: { type: "chart", chartType, column } }
+        : {
+            ok: false,
+            error: "command.unknownColumn",
+            params: { column: name },
+          };
+    }
+    default:
+      return { ok: false, error: "command.unknown", params: { name } };
+  }
+};
+
+// Historial del campo de entrada: las preguntas ya hechas en la sesión
+export const inputHistoryFrom = (messages: Message[]) =>
+  messages.filter((m) => m.type === "user").map((m) => m.content);
+
+export const pushHistory = (history: string[], entry: string) =>
+  history[history.length - 1] === entry ? history : [...history, entry];
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  createConversationExport,
+  parseConversationExport,
+  toMarkdown,
+} from "./conversationExport";
+import { createFormatter, DEFAULT_FORMAT_SETTINGS } from "./format";
+import { defaultI18n } from "./i18n";
+import type { Message, SessionData } from "./types";
+
+const session: SessionData = {
+  sessionId: "s1",
+  totalRows: 1200,
+  columns: ["agencia", "saldo"],
+  sampleData: [],
+  expiresAt: "2026-01-03T10:00:00.000Z",
+  validFor: "2 days",
+  fileName: "cartera.csv",
+};
+
+const messages: Message[] = [
+  { type: "user", content: "Saldo por agencia", timestamp: "" },
+  {
+    type: "ai",
+    content: "Norte concentra el saldo.",
+    timestamp: "",
+    calculations: { saldoPendienteTotal: 4500.5 },
+    chartData: {
+      type: "bar",
+      title: "Saldo",
+      labels: ["Norte | Centro", "Sur"],
+      data: [2900, 1600.5],
+    },
+  },
+];
+
+const exportedJson = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    ...createConversationExport(session, messages),
+    ...overrides,
+  });
+
+describe("parseConversationExport", () => {
+  it("opens a conversation exported by this app", () => {
+    const parsed = parseConversationExport(exportedJson(), defaultI18n.t);
+
+    expect(parsed.session.fileName).toBe("cartera.csv");
+    expect(parsed.messages).toHaveLength(2);
+  });
+
+  it.each([
+    ["a missing session", { session: undefined }],
+    ["a session without columns", { session: { sessionId: "s1" } }],
+    ["an empty message", { messages: [{}] }],
+    ["a message without text", { messages: [{ type: "ai" }] }],
+    ["an unknown message type", { messages: [{ type: "x", content: "" }] }],
+    [
+      "a chart without labels",
+      { messages: [{ type: "ai", content: "", chartData: { title: "x" } }] },
+    ],
+  ])("rejects %s", (_, overrides) => {
+    expect(() =>
+      parseConversationExport(exportedJson(overrides), defaultI18n.t)
+    ).toThrow();
+  });
+});
+
+describe("toMarkdown", () => {
+  it("escapes pipes inside table cells", () => {
+    const markdown = toMarkdown(createConversationExport(session, messages));
+
+    expect(markdown).toContain("| Norte \\| Centro | 2900 |");
+  });
+
+  it("formats metrics with the user's number format", () => {
+    const formatter = createFormatter({
+      ...DEFAULT_FORMAT_SETTINGS,
+      locale: "es-BO",
+      currency: "BOB",
+      compact: false,
+    });
+    const markdown = toMarkdown(createConversationExport(session, messages), {
+      formatter,
+    });
+
+    expect(markdown).toContain(`- Records: ${formatter.count(1200)}`);
+    expect(markdown).toContain(
+      `| Pending Balance | ${formatter.currency(4500.5)} |`
+    );
+  });
+});
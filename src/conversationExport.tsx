@@ -0,0 +1,276 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown from "./Markdown";
+import { getSeries } from "./charts";
+import { isRecord, parseExportEnvelope } from "./exportFormat";
+import { defaultFormatter, type NumberFormatter } from "./format";
+import { defaultI18n, type I18n, type Translate } from "./i18n";
+import { metricEntries } from "./metrics";
+import type { Message, SessionData } from "./types";
+
+const FORMAT_ID = "excel-ai-conversation";
+const FORMAT_VERSION = 1;
+
+export interface ConversationExport {
+  format: typeof FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  session: Pick<SessionData, "sessionId" | "totalRows" | "columns"> & {
+    fileName?: string;
+  };
+  messages: Message[];
+}
+
+// Imagen PNG (data URL) de la gráfica de cada mensaje, por índice
+export type ChartImages = Map<number, string>;
+
+// Formato numérico e idioma de la interfaz al momento de exportar
+export interface ExportOptions {
+  chartImages?: ChartImages;
+  formatter?: NumberFormatter;
+  i18n?: I18n;
+}
+
+const title = (exported: ConversationExport, t: Translate) =>
+  t("export.title", {
+    name: exported.session.fileName ?? exported.session.sessionId,
+  });
+
+export const createConversationExport = (
+  session: SessionData,
+  messages: Message[]
+): ConversationExport => ({
+  format: FORMAT_ID,
+  version: FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    sessionId: session.sessionId,
+    totalRows: session.totalRows,
+    columns: session.columns,
+    fileName: session.fileName,
+  },
+  messages: messages.map((message) => ({ ...message, streaming: undefined })),
+});
+
+const isSession = (value: unknown): value is ConversationExport["session"] =>
+  isRecord(value) &&
+  typeof value.sessionId === "string" &&
+  Array.isArray(value.columns) &&
+  (value.totalRows === undefined || typeof value.totalRows === "number") &&
+  (value.fileName === undefined || typeof value.fileName === "string");
+
+const isChartData = (value: unknown) =>
+  isRecord(value) &&
+  typeof value.title === "string" &&
+  Array.isArray(value.labels) &&
+  (value.data === undefined || Array.isArray(value.data)) &&
+  (value.series === undefined ||
+    (Array.isArray(value.series) &&
+      value.series.every((s) => isRecord(s) && Array.isArray(s.data))));
+
+// Lo que el visor lee de cada mensaje: tipo, texto y, si vienen, métricas
+// y gráfica con la forma esperada
+const isMessage = (value: unknown): value is Message =>
+  isRecord(value) &&
+  (value.type === "user" || value.type === "ai") &&
+  typeof value.content === "string" &&
+  (value.calculations === undefined || isRecord(value.calculations)) &&
+  (value.chartData === undefined || isChartData(value.chartData));
+
+// Valida un JSON exportado antes de abrirlo en modo lectura
+export const parseConversationExport = (
+  text: string,
+  t: Translate
+): ConversationExport => {
+  const data = parseExportEnvelope(
+    text,
+    { format: FORMAT_ID, version: FORMAT_VERSION },
+    "import.notConversation",
+    t
+  );
+  if (
+    !isSession(data.session) ||
+    !Array.isArray(data.messages) ||
+    !data.messages.every(isMessage)
+  ) {
+    throw new Error(t("import.damaged"));
+  }
+  return data as unknown as ConversationExport;
+};
+
+// Un "|" dentro de una celda cortaría la fila de la tabla Markdown
+const escapeCell = (value: unknown) =>
+  String(value ?? "")
+    .replace(/\|/g, "\\|")
+    .replace(/\r?\n/g, " ");
+
+const chartTable = (message: Message, t: Translate) => {
+  if (!message.chartData) return [];
+  const series = getSeries(message.chartData);
+  return [
+    `| ${t("export.label")} | ${series
+      .map((s) => escapeCell(s.name))
+      .join(" | ")} |`,
+    `|---|${series.map(() => "---").join("|")}|`,
+    ...message.chartData.labels.map(
+      (label, i) =>
+        `| ${escapeCell(label)} | ${series
+          .map((s) => escapeCell(s.data[i]))
+          .join(" | ")} |`
+    ),
+  ];
+};
+
+export const toMarkdown = (
+  exported: ConversationExport,
+  {
+    chartImages = new Map(),
+    formatter = defaultFormatter,
+    i18n: { t } = defaultI18n,
+  }: ExportOptions = {}
+) => {
+  const lines = [
+    `# ${title(exported, t)}`,
+    "",
+    `- ${t("export.records", {
+      count: formatter.count(exported.session.totalRows ?? 0),
+    })}`,
+    `- ${t("export.columns", { count: exported.session.columns.length })}`,
+    `- ${t("export.exportedAt", {
+      date: new Date(exported.exportedAt).toLocaleString(),
+    })}`,
+    "",
+  ];
+
+  exported.messages.forEach((message, index) => {
+    const time = new Date(message.timestamp).toLocaleString();
+    lines.push(
+      `## ${
+        message.type === "user" ? t("export.question") : t("export.answer")
+      } · ${time}`,
+      "",
+      message.type === "user" ? `> ${message.content}` : message.content,
+      ""
+    );
+
+    const metrics = metricEntries(message.calculations, formatter, t);
+    if (metrics.length > 0) {
+      lines.push(
+        `| ${t("export.metric")} | ${t("export.value")} |`,
+        "|---|---|",
+        ...metrics.map(([k, v]) => `| ${escapeCell(k)} | ${escapeCell(v)} |`),
+        ""
+      );
+    }
+
+    if (message.chartData) {
+      lines.push(`### ${message.chartData.title}`, "");
+      const image = chartImages.get(index);
+      lines.push(
+        ...(image
+          ? [`![${message.chartData.title}](${image})`]
+          : chartTable(message, t)),
+        ""
+      );
+    }
+  });
+
+  return lines.join("\n");
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const HTML_STYLES = `
+body { font-family: Inter, -apple-system, "Segoe UI", Roboto, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+header { border-bottom: 2px solid #e5e7eb; margin-bottom: 2rem; }
+.message { border-radius: 1rem; padding: 1rem 1.25rem; margin-bottom: 1.25rem; }
+.user { background: #eff6ff; border: 1px solid #bfdbfe; }
+.ai { background: #fff; border: 1px solid #e5e7eb; }
+.meta { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.5rem; }
+table { border-collapse: collapse; margin: 0.75rem 0; font-size: 0.875rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.75rem; text-align: left; }
+th { background: #f9fafb; }
+figure { margin: 1rem 0; }
+figure img { max-width: 100%; }
+pre { background: #1f2937; color: #f9fafb; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+`;
+
+// HTML autónomo: estilos embebidos y gráficas como imágenes data URL
+export const toHtml = (
+  exported: ConversationExport,
+  {
+    chartImages = new Map(),
+    formatter = defaultFormatter,
+    i18n: { language, t } = defaultI18n,
+  }: ExportOptions = {}
+) => {
+  const body = exported.messages
+    .map((message, index) => {
+      const metrics = metricEntries(message.calculations, formatter, t);
+      const image = chartImages.get(index);
+      const chart = message.chartData
+        ? image
+          ? `<figure><img src="${image}" alt="${escapeHtml(
+              message.chartData.title
+            )}" /></figure>`
+          : renderToStaticMarkup(
+              <Markdown
+                source={[
+                  `**${message.chartData.title}**`,
+                  "",
+                  ...chartTable(message, t),
+                ].join("\n")}
+              />
+            )
+        : "";
+      return `<section class="message ${message.type}">
+<div class="meta">${
+        message.type === "user" ? t("export.question") : t("export.answer")
+      } · ${escapeHtml(new Date(message.timestamp).toLocaleString())}</div>
+${renderToStaticMarkup(<Markdown source={message.content} />)}
+${
+  metrics.length > 0
+    ? `<table><thead><tr><th>${t("export.metric")}</th><th>${t(
+        "export.value"
+      )}</th></tr></thead><tbody>${metrics
+        .map(
+          ([k, v]) =>
+            `<tr><td>${escapeHtml(k)}</td><td>${escapeHtml(v)}</td></tr>`
+        )
+        .join("")}</tbody></table>`
+    : ""
+}
+${chart}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="${language}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title(exported, t))}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title(exported, t))}</h1>
+<p>${escapeHtml(
+    t("export.summary", {
+      records: formatter.count(exported.session.totalRows ?? 0),
+      columns: exported.session.columns.length,
+      date: new Date(exported.exportedAt).toLocaleString(),
+    })
+  )}</p>
+</header>
+${body}
+</body>
+</html>`;
+};
+
+export const toJson = (exported: ConversationExport) =>
+  JSON.stringify(exported, null, 2);
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, uniqueHeaders } from "./csv";
+
+describe("uniqueHeaders", () => {
+  it("numbers repeated names instead of dropping them", () => {
+    expect(uniqueHeaders(["Monto", "Saldo", "Monto", "Monto"])).toEqual([
+      "Monto",
+      "Saldo",
+      "Monto (2)",
+      "Monto (3)",
+    ]);
+  });
+
+  it("names empty headers by position and skips taken suffixes", () => {
+    expect(uniqueHeaders(["", " a ", "a (2)", "a"])).toEqual([
+      "Column 1",
+      "a",
+      "a (2)",
+      "a (3)",
+    ]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("keeps every column when the header repeats a name", () => {
+    const { columns, rows } = parseCsv("monto;monto;agencia\n10;20;Norte");
+    expect(columns).toEqual(["monto", "monto (2)", "agencia"]);
+    expect(rows).toEqual([{ monto: 10, "monto (2)": 20, agencia: "Norte" }]);
+  });
+});
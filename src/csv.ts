@@ -0,0 +1,108 @@
+export type CellValue = string | number | null;
+export type Row = Record<string, CellValue>;
+
+export interface ParsedTable {
+  columns: string[];
+  rows: Row[];
+}
+
+const DELIMITERS = [",", ";", "\t", "|"];
+
+// Elige el separador más frecuente en la primera línea (los CSV en español suelen usar ";")
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// Convierte números ("1234.5", "1,234.5") a number y celdas vacías a null
+export const coerceCell = (raw: string): CellValue => {
+  const value = raw.trim();
+  if (value === "") return null;
+  const normalized = value.replace(/,(?=\d{3}(\D|$))/g, "");
+  if (/^-?\d+(\.\d+)?$/.test(normalized)) return Number(normalized);
+  return value;
+};
+
+// Encabezados vacíos o repetidos: las filas se indexan por nombre y un
+// duplicado pisaría la columna anterior ("Monto", "Monto (2)")
+export const uniqueHeaders = (names: string[]) => {
+  const taken = new Set<string>();
+  return names.map((raw, index) => {
+    const base = raw.trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base} (${suffix})`;
+    }
+    taken.add(name);
+    return name;
+  });
+};
+
+const splitRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+export const parseCsv = (text: string): ParsedTable => {
+  const content = text.replace(/^\uFEFF/, "");
+  const [header = [], ...body] = splitRecords(
+    content,
+    detectDelimiter(content)
+  );
+  const columns = uniqueHeaders(header);
+
+  const rows = body.map((record) => {
+    const row: Row = {};
+    columns.forEach((col, index) => {
+      row[col] = coerceCell(record[index] ?? "");
+    });
+    return row;
+  });
+
+  return { columns, rows };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { CellValue } from "./csv";
+import { compareCells, parseFilter } from "./dataGrid";
+
+const sorted = (values: CellValue[]) => [...values].sort(compareCells);
+
+const matching = (expression: string, values: CellValue[]) =>
+  values.filter(parseFilter(expression)!);
+
+describe("compareCells", () => {
+  it("sorts numbers by value, including formatted ones", () => {
+    expect(sorted(["1.200,50", "12%", 3, "-5"])).toEqual([
+      "-5",
+      3,
+      "12%",
+      "1.200,50",
+    ]);
+  });
+
+  it("sorts dates as dates, whatever their format", () => {
+    expect(sorted(["15/03/2024", "2024-01-20", "02/02/2024"])).toEqual([
+      "2024-01-20",
+      "02/02/2024",
+      "15/03/2024",
+    ]);
+  });
+
+  it("sorts text with digits as text", () => {
+    expect(sorted(["Agencia 10", "Agencia 9", "LN-002"])).toEqual([
+      "Agencia 10",
+      "Agencia 9",
+      "LN-002",
+    ]);
+  });
+
+  it("puts empty cells last", () => {
+    expect(sorted([null, "b", "a"])).toEqual(["a", "b", null]);
+  });
+});
+
+describe("parseFilter", () => {
+  it("compares numbers by value", () => {
+    expect(matching("> 100", [50, "1.200,50", "abc 500"])).toEqual([
+      "1.200,50",
+    ]);
+  });
+
+  it("compares dates as dates", () => {
+    expect(
+      matching(">= 2024-02-01", ["2024-01-31", "15/02/2024", "2024-03-01"])
+    ).toEqual(["15/02/2024", "2024-03-01"]);
+  });
+
+  it("filters number and date ranges", () => {
+    expect(matching("10..20", [5, 10, "15", 25])).toEqual([10, "15"]);
+    expect(
+      matching("2024-01-01..2024-01-31", ["2023-12-31", "2024-01-15", 15])
+    ).toEqual(["2024-01-15"]);
+  });
+
+  it("matches text by equality or containment", () => {
+    expect(matching("= vigente", ["Vigente", "Vencido"])).toEqual(["Vigente"]);
+    expect(matching("ven", ["Vigente", "Vencido"])).toEqual(["Vencido"]);
+  });
+});
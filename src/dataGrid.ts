@@ -0,0 +1,201 @@
+import type { CellValue, Row } from "./csv";
+import type { Translate } from "./i18n";
+import { parseDate, parseNumeric } from "./schema";
+
+export type SortDirection = "asc" | "desc";
+
+export interface GridState {
+  search: string;
+  // Expresión por columna: "> 100", "<= 5", "10..20", "= Vigente" o texto
+  filters: Record<string, string>;
+  sort: { column: string; direction: SortDirection } | null;
+  hidden: string[];
+  order: string[];
+}
+
+type Predicate = (value: CellValue) => boolean;
+
+// Números ("10..20") o fechas ("2024-01-01..2024-03-31")
+const RANGE_PATTERN = /^(-?[\d.,/-]+)\s*\.\.\s*(-?[\d.,/-]+)$/;
+const COMPARISON_PATTERN = /^(>=|<=|!=|>|<|=)\s*(.+)$/;
+
+export const createGridState = (columns: string[]): GridState => ({
+  search: "",
+  filters: {},
+  sort: null,
+  hidden: [],
+  order: columns,
+});
+
+// La muestra del backend llega sin tipar; se lleva a celdas del grid
+export const toRows = (sample: Record<string, unknown>[]): Row[] =>
+  sample.map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([column, value]) => [
+        column,
+        typeof value === "number" || typeof value === "string"
+          ? value
+          : value === null || value === undefined
+          ? null
+          : String(value),
+      ])
+    )
+  );
+
+const normalize = (value: CellValue) =>
+  value === null ? "" : String(value).trim().toLowerCase();
+
+// Diferencia entre dos celdas si ambas son números (la celda entera, también
+// "1.200,50" o "12%") o ambas fechas; null si no se pueden comparar así
+const difference = (a: CellValue, b: CellValue): number | null => {
+  const x = parseNumeric(a);
+  const y = parseNumeric(b);
+  if (x !== null && y !== null) return x - y;
+  const dx = parseDate(a);
+  const dy = parseDate(b);
+  if (dx !== null && dy !== null) return dx - dy;
+  return null;
+};
+
+// Nulos al final; números y fechas por valor; el resto como texto
+export const compareCells = (a: CellValue, b: CellValue) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return difference(a, b) ?? String(a).localeCompare(String(b));
+};
+
+export const parseFilter = (expression: string): Predicate | null => {
+  const expr = expression.trim();
+  if (!expr) return null;
+
+  const range = RANGE_PATTERN.exec(expr);
+  if (range) {
+    const [, min, max] = range;
+    if (difference(min, max) !== null) {
+      return (value) => {
+        const fromMin = difference(value, min);
+        const toMax = difference(value, max);
+        return fromMin !== null && toMax !== null && fromMin >= 0 && toMax <= 0;
+      };
+    }
+  }
+
+  const comparison = COMPARISON_PATTERN.exec(expr);
+  if (comparison) {
+    const [, operator, operand] = comparison;
+    const target = operand.trim();
+    const targetIsValue =
+      parseNumeric(target) !== null || parseDate(target) !== null;
+    const check = (order: number) => {
+      switch (operator) {
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case "!=":
+          return order !== 0;
+        default:
+          return order === 0;
+      }
+    };
+    return (value) => {
+      if (value === null) return operator === "!=";
+      const order = difference(value, target);
+      if (order !== null) return check(order);
+      // Un número o una fecha no se compara con texto
+      if (targetIsValue) return operator === "!=";
+      // Texto: comparación sin distinguir mayúsculas
+      return check(normalize(value).localeCompare(target.toLowerCase()));
+    };
+  }
+
+  const needle = expr.toLowerCase();
+  return (value) => normalize(value).includes(needle);
+};
+
+// Orden guardado más las columnas nuevas, sin las ocultas
+export const visibleColumns = (state: GridState, columns: string[]) =>
+  [
+    ...state.order.filter((col) => columns.includes(col)),
+    ...columns.filter((col) => !state.order.includes(col)),
+  ].filter((col) => !state.hidden.includes(col));
+
+export const applyGrid = (
+  rows: Row[],
+  columns: string[],
+  state: GridState
+): Row[] => {
+  const shown = visibleColumns(state, columns);
+  const search = state.search.trim().toLowerCase();
+  const predicates = Object.entries(state.filters).flatMap(
+    ([column, expression]) => {
+      const predicate = parseFilter(expression);
+      return predicate ? [{ column, predicate }] : [];
+    }
+  );
+
+  const filtered = rows.filter(
+    (row) =>
+      (!search ||
+        shown.some((col) => normalize(row[col] ?? null).includes(search))) &&
+      predicates.every(({ column, predicate }) =>
+        predicate(row[column] ?? null)
+      )
+  );
+  if (!state.sort) return filtered;
+
+  const { column, direction } = state.sort;
+  const sign = direction === "asc" ? 1 : -1;
+  return [...filtered].sort((a, b) => {
+    const x = a[column] ?? null;
+    const y = b[column] ?? null;
+    // Los nulos quedan al final en ambos sentidos
+    if (x === null || y === null) return compareCells(x, y);
+    return sign * compareCells(x, y);
+  });
+};
+
+// Sin orden → ascendente → descendente → sin orden
+export const toggleSort = (
+  sort: GridState["sort"],
+  column: string
+): GridState["sort"] => {
+  if (sort?.column !== column) return { column, direction: "asc" };
+  return sort.direction === "asc" ? { column, direction: "desc" } : null;
+};
+
+export const moveColumn = (order: string[], column: string, offset: -1 | 1) => {
+  const index = order.indexOf(column);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= order.length) return order;
+  const next = [...order];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Condiciones activas en palabras, para armar la pregunta sobre la selección
+export const describeSelection = (state: GridState, t: Translate) => {
+  const conditions = Object.entries(state.filters)
+    .filter(([, expression]) => parseFilter(expression))
+    .map(([column, expression]) => {
+      const expr = expression.trim();
+      return COMPARISON_PATTERN.test(expr)
+        ? `${column} ${expr}`
+        : RANGE_PATTERN.test(expr)
+        ? t("explorer.conditionRange", {
+            column,
+            min: expr.split("..")[0].trim(),
+            max: expr.split("..")[1].trim(),
+          })
+        : t("explorer.conditionContains", { column, value: expr });
+    });
+  if (state.search.trim()) {
+    conditions.push(
+      t("explorer.conditionSearch", { value: state.search.trim() })
+    );
+  }
+  return conditions;
+};
@@ -0,0 +1,170 @@
+import type { ApiResponse, Dataset, DatasetJoin, SessionData } from "./types";
+
+// Id del archivo con el que se abrió la sesión si el backend no informa otro
+export const PRIMARY_DATASET_ID = "main";
+
+export const datasetNameFor = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, "") || fileName;
+
+export const createDataset = (
+  result: ApiResponse,
+  fileName: string,
+  fallbackId: string,
+  sheet?: string
+): Dataset => ({
+  id: result.datasetId ?? fallbackId,
+  name: datasetNameFor(fileName),
+  fileName,
+  totalRows: result.totalRows ?? 0,
+  columns: result.columns ?? [],
+  sampleData: result.sampleData ?? [],
+  sheet,
+});
+
+// Sesiones de un archivo no guardan `datasets`: se arma el único a partir
+// de los campos de la sesión
+export const sessionDatasets = (session: SessionData): Dataset[] =>
+  session.datasets ?? [
+    {
+      id: PRIMARY_DATASET_ID,
+      name: datasetNameFor(session.fileName ?? session.sessionId),
+      fileName: session.fileName ?? session.sessionId,
+      totalRows: session.totalRows,
+      columns: session.columns,
+      sampleData: session.sampleData,
+    },
+  ];
+
+export const findDataset = (session: SessionData, datasetId: string | null) =>
+  datasetId
+    ? sessionDatasets(session).find((dataset) => dataset.id === datasetId)
+    : undefined;
+
+export const addDataset = (
+  session: SessionData,
+  dataset: Dataset
+): SessionData => ({
+  ...session,
+  datasets: [...sessionDatasets(session), dataset],
+});
+
+// Un nombre vacío vuelve al del archivo; uno repetido recibe un sufijo
+export const renameDataset = (
+  session: SessionData,
+  datasetId: string,
+  name: string
+): SessionData => {
+  const datasets = sessionDatasets(session);
+  const others = datasets.filter((dataset) => dataset.id !== datasetId);
+  return {
+    ...session,
+    datasets: datasets.map((dataset) =>
+      dataset.id === datasetId
+        ? {
+            ...dataset,
+            name: uniqueDatasetName(
+              others,
+              name.trim() || datasetNameFor(dataset.fileName)
+            ),
+          }
+        : dataset
+    ),
+  };
+};
+
+// Evita nombres repetidos para poder distinguirlos en preguntas y joins
+export const uniqueDatasetName = (datasets: Dataset[], name: string) => {
+  const taken = new Set(datasets.map((dataset) => dataset.name));
+  if (!taken.has(name)) return name;
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`)) suffix++;
+  return `${name} (${suffix})`;
+};
+
+const sameJoin = (a: DatasetJoin, b: DatasetJoin) =>
+  (a.left.datasetId === b.left.datasetId &&
+    a.left.column === b.left.column &&
+    a.right.datasetId === b.right.datasetId &&
+    a.right.column === b.right.column) ||
+  (a.left.datasetId === b.right.datasetId &&
+    a.left.column === b.right.column &&
+    a.right.datasetId === b.left.datasetId &&
+    a.right.column === b.left.column);
+
+export const addJoin = (
+  session: SessionData,
+  join: DatasetJoin
+): SessionData => {
+  const joins = session.joins ?? [];
+  return joins.some((existing) => sameJoin(existing, join))
+    ? session
+    : { ...session, joins: [...joins, join] };
+};
+
+export const removeJoin = (
+  session: SessionData,
+  index: number
+): SessionData => ({
+  ...session,
+  joins: (session.joins ?? []).filter((_, i) => i !== index),
+});
+
+// Al volver a subir los archivos de una sesión vencida: `ids` lleva cada
+// dataset anterior al nuevo. Se conservan los nombres y los joins entre
+// datasets que volvieron; los demás joins se descartan
+export const carryOverDatasets = (
+  session: SessionData,
+  previous: SessionData,
+  ids: Map<string, string>
+): SessionData => {
+  const names = new Map(
+    sessionDatasets(previous).flatMap((dataset) => {
+      const id = ids.get(dataset.id);
+      return id ? [[id, dataset.name]] : [];
+    })
+  );
+  const joins = (previous.joins ?? []).flatMap((join) => {
+    const left = ids.get(join.left.datasetId);
+    const right = ids.get(join.right.datasetId);
+    return left && right
+      ? [
+          {
+            left: { ...join.left, datasetId: left },
+            right: { ...join.right, datasetId: right },
+          },
+        ]
+      : [];
+  });
+  return {
+    ...session,
+    datasets: sessionDatasets(session).map((dataset) => ({
+      ...dataset,
+      name: names.get(dataset.id) ?? dataset.name,
+    })),
+    joins,
+  };
+};
+
+export const describeJoin = (join: DatasetJoin, datasets: Dataset[]) => {
+  const name = (id: string) =>
+    datasets.find((dataset) => dataset.id === id)?.name ?? id;
+  return `${name(join.left.datasetId)}.${join.left.column} = ${name(
+    join.right.datasetId
+  )}.${join.right.column}`;
+};
+
+// Columnas presentes en ambos datasets: candidatas naturales a clave
+export const sharedColumns = (a: Dataset, b: Dataset) =>
+  a.columns.filter((col) => b.columns.includes(col));
+
+// Columnas de la pregunta: las del dataset elegido o todas sin repetir
+export const datasetColumns = (
+  session: SessionData,
+  datasetId: string | null
+) => {
+  const target = findDataset(session, datasetId);
+  if (target) return target.columns;
+  return [
+    ...new Set(sessionDatasets(session).flatMap((dataset) => dataset.columns)),
+  ];
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseExportEnvelope } from "./exportFormat";
+import { createI18n } from "./i18n";
+
+const { t } = createI18n("es");
+const format = { format: "excel-ai-prompts", version: 1 };
+
+const parse = (data: unknown) =>
+  parseExportEnvelope(
+    typeof data === "string" ? data : JSON.stringify(data),
+    format,
+    "import.notPromptLibrary",
+    t
+  );
+
+describe("parseExportEnvelope", () => {
+  it("returns the parsed file when the envelope matches", () => {
+    const data = parse({
+      format: "excel-ai-prompts",
+      version: 1,
+      exportedAt: "2026-01-01T00:00:00.000Z",
+      prompts: [],
+    });
+
+    expect(data.prompts).toEqual([]);
+  });
+
+  it.each([
+    ["invalid JSON", "{", "El archivo no es un JSON válido"],
+    [
+      "another format",
+      { format: "excel-ai-conversation", exportedAt: "" },
+      "El archivo no es una biblioteca de prompts exportada",
+    ],
+    [
+      "a newer version",
+      { format: "excel-ai-prompts", version: 2, exportedAt: "" },
+      "El archivo se exportó con una versión más nueva de la app",
+    ],
+    [
+      "a missing export date",
+      { format: "excel-ai-prompts", version: 1 },
+      "El archivo está incompleto o dañado",
+    ],
+  ])("rejects %s with a translated message", (_, data, message) => {
+    expect(() => parse(data)).toThrow(message);
+  });
+});
@@ -0,0 +1,40 @@
+import type { MessageKey, Translate } from "./i18n";
+
+// Encabezado común de los JSON que exporta la app (conversaciones, prompts)
+export interface ExportEnvelope {
+  format: string;
+  version: number;
+  exportedAt: string;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Lee el JSON y valida formato, versión y fecha; `wrongFormat` es el error
+// propio de cada tipo de archivo. Los mensajes ya salen traducidos.
+export const parseExportEnvelope = (
+  text: string,
+  { format, version }: { format: string; version: number },
+  wrongFormat: MessageKey,
+  t: Translate
+): Record<string, unknown> & ExportEnvelope => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t("import.invalidJson"));
+  }
+  if (!isRecord(data) || data.format !== format) {
+    throw new Error(t(wrongFormat));
+  }
+  if (data.version !== undefined && typeof data.version !== "number") {
+    throw new Error(t("import.damaged"));
+  }
+  if ((data.version ?? 0) > version) {
+    throw new Error(t("import.newerVersion"));
+  }
+  if (typeof data.exportedAt !== "string") {
+    throw new Error(t("import.damaged"));
+  }
+  return data as Record<string, unknown> & ExportEnvelope;
+};
@@ -0,0 +1,118 @@
+import { createContext, useContext } from "react";
+
+export type FormatLocale = "es-BO" | "es-ES" | "en-US";
+export type CurrencyCode = "USD" | "BOB" | "EUR";
+
+export interface FormatSettings {
+  locale: FormatLocale;
+  currency: CurrencyCode;
+  // 1,2 M en lugar de 1.234.567
+  compact: boolean;
+  // "parentheses" muestra los montos negativos como ($1,200)
+  negatives: "minus" | "parentheses";
+}
+
+export const LOCALE_OPTIONS: { value: FormatLocale; label: string }[] = [
+  { value: "es-BO", label: "Español (Bolivia)" },
+  { value: "es-ES", label: "Español (España)" },
+  { value: "en-US", label: "English (US)" },
+];
+
+export const CURRENCY_OPTIONS: CurrencyCode[] = ["USD", "BOB", "EUR"];
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+  locale: "en-US",
+  currency: "USD",
+  compact: true,
+  negatives: "minus",
+};
+
+const SETTINGS_KEY = "excel-ai:format";
+
+export const loadFormatSettings = (): FormatSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<FormatSettings>) : {};
+    return {
+      locale: LOCALE_OPTIONS.some((o) => o.value === stored.locale)
+        ? stored.locale!
+        : DEFAULT_FORMAT_SETTINGS.locale,
+      currency: CURRENCY_OPTIONS.includes(stored.currency!)
+        ? stored.currency!
+        : DEFAULT_FORMAT_SETTINGS.currency,
+      compact: stored.compact ?? DEFAULT_FORMAT_SETTINGS.compact,
+      negatives: stored.negatives === "parentheses" ? "parentheses" : "minus",
+    };
+  } catch {
+    return DEFAULT_FORMAT_SETTINGS;
+  }
+};
+
+export const saveFormatSettings = (settings: FormatSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Could not persist format settings:", err);
+  }
+};
+
+export interface NumberFormatter {
+  settings: FormatSettings;
+  number: (value: number) => string;
+  count: (value: number) => string;
+  // `compact` por defecto sigue la preferencia del usuario
+  currency: (value: number, compact?: boolean) => string;
+  // Recibe puntos porcentuales: 12.5 -> 12.5%
+  percent: (value: number) => string;
+  compact: (value: number) => string;
+}
+
+// Formateadores Intl para la configuración elegida, creados una sola vez
+export const createFormatter = (
+  settings: FormatSettings = DEFAULT_FORMAT_SETTINGS
+): NumberFormatter => {
+  const { locale, currency, negatives } = settings;
+  const build = (options: Intl.NumberFormatOptions) =>
+    new Intl.NumberFormat(locale, options);
+
+  const number = build({ maximumFractionDigits: 2 });
+  const count = build({ maximumFractionDigits: 0 });
+  const compact = build({ notation: "compact", maximumFractionDigits: 1 });
+  const percent = build({
+    style: "percent",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
+  const money = (compactNotation: boolean) =>
+    build({
+      style: "currency",
+      currency,
+      ...(compactNotation
+        ? { notation: "compact", maximumFractionDigits: 1 }
+        : { maximumFractionDigits: 2 }),
+    });
+  const currencyFull = money(false);
+  const currencyCompact = money(true);
+
+  return {
+    settings,
+    number: (value) => number.format(value),
+    count: (value) => count.format(value),
+    // Intl no aplica currencySign "accounting" en notación compacta ni en
+    // todos los idiomas, así que los paréntesis se agregan aquí
+    currency: (value, useCompact = settings.compact) => {
+      const money = useCompact ? currencyCompact : currencyFull;
+      return negatives === "parentheses" && value < 0
+        ? `(${money.format(-value)})`
+        : money.format(value);
+    },
+    percent: (value) => percent.format(value / 100),
+    compact: (value) => compact.format(value),
+  };
+};
+
+export const defaultFormatter = createFormatter();
+
+export const FormatContext = createContext<NumberFormatter>(defaultFormatter);
+
+export const useFormatter = (): NumberFormatter => useContext(FormatContext);
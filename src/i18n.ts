@@ -0,0 +1,807 @@
+import { createContext, useContext } from "react";
+
+export type Language = "es" | "en";
+
+export const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: "es", label: "ES" },
+  { value: "en", label: "EN" },
+];
+
+// Catálogo base; las claves de `es` deben coincidir (lo verifica el tipo)
+const en = {
+  "language.label": "Language",
+
+  "landing.getStarted": "Get Started",
+  "landing.heroTitleStart": "Analyze Your",
+  "landing.heroTitleHighlight": " Data ",
+  "landing.heroTitleEnd": "Like Never Before",
+  "landing.heroSubtitle":
+    "Transform your Excel files into intelligent conversations. Ask questions, get instant insights, and generate professional reports with the power of AI.",
+  "landing.startAnalyzing": "Start Analyzing",
+  "landing.watchDemo": "Watch Demo",
+  "landing.featuresTitle": "Powerful Features",
+  "landing.featuresSubtitle":
+    "Everything you need to transform your data into actionable intelligence",
+  "landing.feature.ai.title": "AI-Powered Analysis",
+  "landing.feature.ai.description":
+    "Advanced artificial intelligence analyzes your financial data and provides intelligent insights in real-time.",
+  "landing.feature.insights.title": "Instant Insights",
+  "landing.feature.insights.description":
+    "Get immediate answers to complex questions about your portfolio, risk assessment, and performance metrics.",
+  "landing.feature.charts.title": "Dynamic Visualizations",
+  "landing.feature.charts.description":
+    "Beautiful, interactive charts and graphs that adapt to your questions and reveal hidden patterns.",
+  "landing.feature.security.title": "Secure & Private",
+  "landing.feature.security.description":
+    "Your data stays safe with 2-day sessions, no permanent storage, and enterprise-grade security.",
+  "landing.stat.speed.label": "Faster Analysis",
+  "landing.stat.speed.description": "Compare to manual Excel analysis",
+  "landing.stat.accuracy.label": "Accuracy Rate",
+  "landing.stat.accuracy.description": "AI-powered data interpretation",
+  "landing.stat.setup.label": "Setup Time",
+  "landing.stat.setup.description": "From upload to insights",
+  "landing.stat.availability.label": "Available",
+  "landing.stat.availability.description": "Analyze data anytime",
+  "landing.ctaTitleStart": "Ready to Transform Your",
+  "landing.ctaTitleHighlight": " Analysis?",
+  "landing.ctaSubtitle":
+    "Join thousands of analysts who've revolutionized their data workflows with AI-powered insights.",
+  "landing.ctaButton": "Start Your Free Analysis",
+  "landing.ctaNote":
+    "No signup required • 2-day free sessions • Enterprise ready",
+
+  "preview.summary": "{rows} rows • {columns} columns",
+  "preview.sheet": "Sheet",
+  "preview.sheetOption": "{name} ({rows} rows)",
+  "preview.previous": "Previous",
+  "preview.next": "Next",
+  "preview.page": "Page {page} of {total}",
+  "preview.cancel": "Choose another file",
+  "preview.confirm": "Upload & analyze",
+
+  "upload.noSheets": "The file does not contain any sheet",
+  "upload.readError": "Could not read the file",
+  "upload.invalidType": "Unsupported file type. Use {extensions}.",
+  "upload.emptyFile": "The file is empty",
+  "upload.tooLarge": "The file is {size}; the limit is {max}",
+  "upload.progress": "Uploading {loaded} of {total} ({percent}%)",
+  "upload.progressChunked":
+    "Uploading in parts: {loaded} of {total} ({percent}%)",
+  "upload.resumed": "Resuming the previous upload of this file",
+  "upload.cancel": "Cancel upload",
+  "upload.processing": "Processing your file...",
+  "upload.reading": "Reading your file...",
+  "upload.title": "Upload Excel or CSV",
+  "upload.analyzing": "Analyzing data with AI...",
+  "upload.hint": "Drag and drop or click to select your financial data",
+  "upload.questionPlaceholder": "Ask an initial question about your data...",
+  "upload.analyzingShort": "Analyzing with AI...",
+  "upload.screenTitle": "Ready to Analyze Your Data?",
+  "upload.screenDescription":
+    "Upload your Excel or CSV file and start having intelligent conversations about your financial data",
+  "upload.openConversation": "📂 Open exported conversation (.json)",
+  "upload.preview.analytics.title": "Smart Analytics",
+  "upload.preview.analytics.description":
+    "Ask questions and get instant insights with beautiful visualizations",
+  "upload.preview.conversation.title": "Natural Conversation",
+  "upload.preview.conversation.description":
+    "Chat naturally about your data like talking to an expert analyst",
+  "upload.preview.reports.title": "Strategic Reports",
+  "upload.preview.reports.description":
+    "Generate professional analysis reports with actionable recommendations",
+  "upload.success": "File uploaded successfully! Start asking questions.",
+  "upload.welcome":
+    "✅ File processed successfully!\n\n- 📊 **{rows} records** loaded\n- 📋 **{columns} columns** detected\n- ⏰ Session valid for **{validFor}**\n\nYou can now ask me anything about your data!",
+
+  "header.title": "Excel AI Analyst",
+  "header.subtitle": "Intelligent data analysis powered by AI",
+  "header.records": "{count} records",
+  "session.expired": "Session expired",
+  "session.validFor": "Session valid for {time}",
+  "session.expiresIn": "Session expires in {time}",
+  "session.warning":
+    "Session expires in {time}. Generate your report before it ends.",
+
+  "report.generate": "Generate Report",
+  "report.pdf": "PDF Report",
+  "report.cancel": "Cancel Report",
+  "report.cancelProgress": "Cancel Report ({percent}%)",
+  "report.cancelTitle": "Cancel report generation",
+  "report.generating": "🔄 **Generating Strategic Report...**",
+  "report.status.generating":
+    "Analyzing your data and creating comprehensive insights{attempt}...",
+  "report.status.downloading": "Downloading report{attempt}...",
+  "report.status.downloadingProgress": "Downloading report {percent}%{attempt}",
+  "report.status.retrying": "Temporary problem, retrying shortly{attempt}...",
+  "report.attempt": " (attempt {attempt} of {total})",
+  "report.success":
+    "📥 **Strategic Report Generated Successfully**\n\n- ✅ File: {fileName}\n- 📁 Format: {format}\n- 📊 {scope}\n\nThe report has been downloaded to your computer.",
+  "report.scopeBoard": "{count} sections from your report board",
+  "report.scopeFull":
+    "Complete analysis with visualizations and recommendations",
+  "report.cancelled": "⏹️ **Report generation cancelled**",
+  "report.error":
+    "❌ **Error Generating Report**\n\nSorry, there was an issue creating your strategic report: {error}\n\nPlease try again or contact support if the problem persists.",
+  "error.unknown": "Unknown error",
+  "error.network":
+    "Can't reach the server. Check your connection and try again.",
+  "error.timeout": "The server took too long to respond.",
+  "error.validation": "The server rejected the request: {detail}",
+  "error.sessionExpired":
+    "Your session expired. Upload the file again to continue.",
+  "error.rateLimited": "Too many requests. Wait a moment and try again.",
+  "error.rateLimitedWait": "Too many requests. Try again in {seconds}s.",
+  "error.server": "The server had a problem ({status}). Try again in a moment.",
+  "error.retry": "Try again",
+  "error.reupload": "Upload again",
+  "error.dismiss": "Dismiss",
+
+  "chat.thinking": "AI analyzing your data...",
+  "chat.placeholder":
+    "Ask anything about your data... Type / for commands or @ for columns",
+  "chat.enterHint": "Press Enter to send",
+  "chat.send": "Send",
+  "chat.stop": "Stop",
+  "chat.stopped": "⏹️ Response stopped.",
+  "chat.error": "❌ Error: {error}",
+  "chat.importError": "Could not open the conversation",
+
+  "command.report": "Generate the Word report",
+  "command.chart": "Ask for a chart of a column",
+  "command.clear": "Clear the messages, their pins and the input history",
+  "command.export": "Export the conversation",
+  "command.column": "column",
+  "command.chartQuestion": "Show a {type} chart of {column}",
+  "command.unknown":
+    "Unknown command /{name}. Try /report, /chart, /clear or /export.",
+  "command.chartUsage": "Usage: /chart bar|line|area|pie <column>",
+  "command.unknownColumn": 'Column "{column}" was not found',
+  "command.exportUsage": "Usage: /export md|html|json",
+  "sidebar.quickAnalysis": "Quick Analysis",
+  "prompts.suggested": "Suggested for this file",
+  "prompts.saved": "My prompts",
+  "prompts.empty":
+    "Save questions you ask often. Use {column} placeholders such as {category} or a column name.",
+  "prompts.allCategories": "All categories",
+  "prompts.defaultCategory": "General",
+  "prompts.suggestedCategory": "Suggested",
+  "prompts.new": "New prompt",
+  "prompts.saveCurrent": "Save current question",
+  "prompts.saveSuggestion": "Save to my prompts",
+  "prompts.delete": "Delete prompt",
+  "prompts.textPlaceholder": "e.g. Show {amount} by {category}",
+  "prompts.categoryPlaceholder": "Category",
+  "prompts.save": "Save",
+  "prompts.cancel": "Cancel",
+  "prompts.fillTitle": "Choose the columns",
+  "prompts.pickColumn": "Select a column",
+  "prompts.use": "Use prompt",
+  "prompts.export": "Export",
+  "prompts.import": "Import",
+  "prompts.imported": "{count} prompts imported",
+  "suggest.total": "What is the total {column}?",
+  "suggest.byCategory": "Show {measure} by {category}",
+  "suggest.distribution": "Show the distribution by {column}",
+  "suggest.trend": "How did {measure} evolve over {date}?",
+  "suggest.average": "What is the average {column}?",
+  "suggest.outliers": "Are there unusual values in {column}?",
+  "sidebar.sessionActive": "Session Active",
+  "sidebar.records": "Records:",
+  "sidebar.columns": "Columns:",
+  "sidebar.validFor": "Valid for:",
+  "sidebar.expiresIn": "Expires in:",
+  "sidebar.expired": "Expired",
+  "sidebar.uploadNew": "📎 Upload new file",
+  "sidebar.reportBoard": "Report Board",
+  "sidebar.boardEmpty": "Pin answers and charts to build a custom report.",
+  "sidebar.boardCount": "{count} items on the board",
+  "sidebar.boardCountOne": "1 item on the board",
+  "sidebar.openBoard": "Open board",
+  "sidebar.generatedReports": "Generated Reports",
+  "sidebar.downloadAgain": "Download again",
+  "sidebar.removeFromList": "Remove from list",
+  "sidebar.exportConversation": "Export Conversation",
+  "sidebar.exportMarkdown": "Markdown (.md)",
+  "sidebar.exportHtml": "HTML page (.html)",
+  "sidebar.exportJson": "JSON, re-importable (.json)",
+  "datasets.title": "Datasets",
+  "datasets.summary": "{fileName} • {rows} records • {columns} columns",
+  "datasets.rename": "Rename dataset",
+  "datasets.target": "Ask questions about this dataset",
+  "datasets.targeted": "Questions go to this dataset (click to ask about all)",
+  "datasets.add": "Add files",
+  "datasets.added":
+    "📎 Dataset **{name}** added: {rows} records, {columns} columns.",
+  "datasets.queued": "{count} more file(s) will be added as datasets: {names}",
+  "datasets.askAbout": "Ask about",
+  "datasets.all": "All datasets",
+  "datasets.allJoined": "All datasets (joined)",
+  "datasets.joins": "Join keys",
+  "datasets.joinHint":
+    "Declare how rows match across files to ask cross-file questions.",
+  "datasets.addJoin": "Add join",
+  "datasets.removeJoin": "Remove join",
+  "explorer.tab": "Data explorer",
+  "explorer.chatTab": "Chat",
+  "explorer.search": "Search all visible columns...",
+  "explorer.columns": "Columns ({shown}/{total})",
+  "explorer.moveLeft": "Move left",
+  "explorer.moveRight": "Move right",
+  "explorer.sort": "Sort by this column",
+  "explorer.filter": "Filter",
+  "explorer.filterHint":
+    "Text, > 100, <= 5, = Active, != 0 or a range like 10..20",
+  "explorer.noRows": "No rows match the current filters",
+  "explorer.rowCount": "{shown} of {total} rows",
+  "explorer.clearFilters": "Clear filters",
+  "explorer.ask": "Ask about this selection",
+  "explorer.askHint": "Filter or search the rows first",
+  "explorer.askPrompt":
+    'Looking only at the rows of "{dataset}" where {conditions}: ',
+  "explorer.sampleOnly":
+    "Showing the {shown}-row sample of {total} rows; the full file could not be read in the browser",
+  "explorer.conditionRange": "{column} between {min} and {max}",
+  "explorer.conditionContains": '{column} contains "{value}"',
+  "explorer.conditionSearch": 'some column contains "{value}"',
+  "verify.matched": "Verified locally: {count} values match the file",
+  "verify.mismatch": "{count} of {total} values differ from the file",
+  "verify.detail": "{label}: reported {reported}, file gives {expected}",
+  "verify.note":
+    "Recomputed in your browser from the uploaded rows. Answers about a subset of the data can differ on purpose.",
+  "upload.fileOf": "File {index} of {count}: {name}",
+  "sidebar.numberFormat": "Number Format",
+  "sidebar.locale": "Locale",
+  "sidebar.currency": "Currency",
+  "sidebar.negatives": "Negatives",
+  "sidebar.compact": "Compact amounts",
+  "sidebar.recentSessions": "Recent Sessions",
+  "sidebar.sessionSummary": "{rows} records • {questions} questions • {date}",
+  "sidebar.removeSession": "Remove session",
+  "sidebar.dataStructure": "Data Structure",
+  "sidebar.searchColumns": "Search {count} columns...",
+  "sidebar.insertColumn": "Insert column name into the question",
+  "sidebar.nulls": "{count} nulls",
+  "sidebar.distinct": "{count} distinct",
+  "sidebar.noColumns": "No matching columns",
+  "chart.unsupported": "Unsupported chart type",
+  "chart.pieSingleSeries":
+    "A pie chart shows a single series; this chart has {count}",
+  "chart.export": "Export chart",
+  "chart.downloadPng": "Download PNG",
+  "chart.downloadSvg": "Download SVG",
+  "chart.copyImage": "Copy image",
+  "chart.dataCsv": "Data as CSV",
+  "chart.dataXlsx": "Data as XLSX",
+  "chart.copied": "Copied!",
+  "chart.notRendered": "The chart is not drawn yet",
+  "chart.clipboardUnsupported": "This browser cannot copy images",
+  "chart.exportFailed": "Export failed",
+  "chart.pin": "Pin chart to report board",
+  "chart.unpin": "Unpin chart",
+  "chart.expand": "Expand chart",
+  "chart.type.bar": "Bar",
+  "chart.type.line": "Line",
+  "chart.type.area": "Area",
+  "chart.type.pie": "Pie",
+  "chart.type.scatter": "Scatter",
+  "chart.type.combo": "Combo",
+  "chart.sort": "Sort",
+  "chart.sortNone": "Original",
+  "chart.sortDesc": "Highest first",
+  "chart.sortAsc": "Lowest first",
+  "chart.show": "Show",
+  "chart.showAll": "All",
+  "chart.showTop": "Top {count}",
+  "chart.format": "Format",
+  "chart.formatAuto": "Auto",
+  "chart.formatNumber": "Number",
+  "chart.formatCurrency": "Currency",
+  "chart.formatPercent": "Percent",
+  "chart.formatThousands": "Thousands (K/M)",
+  "answer.pin": "Pin answer to report board",
+  "answer.unpin": "Unpin answer",
+  "answer.rawCalculations": "Raw calculations",
+  "report.builderHint":
+    "Choose the answers to include. Each one becomes a section with its metrics and chart, after a cover page.",
+  "report.analysis": "Analysis",
+  "report.tagMetrics": "metrics",
+  "report.tagChart": "chart",
+  "report.close": "Cancel",
+  "report.buildingPdf": "Building PDF...",
+  "report.downloadPdf": "Download PDF",
+  "report.downloadPdfSections": "Download PDF ({count} sections)",
+  "report.downloadPdfSectionsOne": "Download PDF (1 section)",
+  "report.pdfFailed": "Could not build the PDF",
+  "report.buildFailed": "Could not build the report",
+  "report.boardTitle": "Report Board",
+  "report.boardEmptyBefore": "Pin answers or charts from the chat with the",
+  "report.boardEmptyAfter":
+    "button, then arrange them here with your own headings and notes.",
+  "report.headingPlaceholder": "Section heading",
+  "report.notePlaceholder": "Note or commentary",
+  "report.moveUp": "Move up",
+  "report.moveDown": "Move down",
+  "report.removeFromBoard": "Remove from board",
+  "report.addHeading": "Add heading",
+  "report.addNote": "Add note",
+  "report.generateWord": "Generate Word Report",
+  "report.generatingWord": "Generating...",
+  "session.expiredText":
+    "The server no longer holds {file}. Upload it again to keep analyzing.",
+  "session.yourFile": "your file",
+  "session.replay": "Replay the {count} previous questions on the new session",
+  "session.replayOne": "Replay the previous question on the new session",
+  "session.reupload": "Re-upload {name}",
+  "session.chooseFile": "Choose file...",
+  "viewer.summary":
+    "Read-only conversation • {records} records • exported {date}",
+  "viewer.close": "Close",
+  "metric.totalRegistros": "Total Credits",
+  "metric.montoTotalUSD": "Total Disbursed",
+  "metric.saldoPendienteTotal": "Pending Balance",
+  "metric.promedioTasaInteres": "Avg Interest Rate",
+  "metric.registrosVencidos": "Overdue Records",
+  "metric.items": "{count} items",
+  "metric.itemsOne": "1 item",
+  "export.title": "Excel AI conversation — {name}",
+  "export.records": "Records: {count}",
+  "export.columns": "Columns: {count}",
+  "export.exportedAt": "Exported: {date}",
+  "export.summary": "{records} records · {columns} columns · exported {date}",
+  "export.question": "Question",
+  "export.answer": "AI answer",
+  "export.metric": "Metric",
+  "export.value": "Value",
+  "export.label": "Label",
+  "pdf.title": "Strategic Data Report",
+  "pdf.generated": "Generated: {date}",
+  "pdf.sections": "Sections: {count}",
+  "pdf.keyMetrics": "Key metrics",
+  "pdf.page": "Page {page} of {total}",
+  "import.invalidJson": "The file is not valid JSON",
+  "import.newerVersion": "The file was exported by a newer version of the app",
+  "import.damaged": "The file is incomplete or damaged",
+  "import.notConversation": "The file is not an exported Excel AI conversation",
+  "import.notPromptLibrary": "The file is not an exported prompt library",
+  "session.replayBlocked":
+    "Questions won't be replayed: the file for {names} isn't available here, so the answers would use different data. Add the missing files again under Datasets.",
+  "verify.unavailable":
+    "Not verified: the file's rows aren't loaded in this tab (for example, after reloading the page)",
+  "report.formatDocx": "Microsoft Word",
+  "report.formatPdf": "PDF",
+  "report.formatTxt": "Plain text (.txt)",
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, string>;
+
+const es: Catalog = {
+  "language.label": "Idioma",
+
+  "landing.getStarted": "Comenzar",
+  "landing.heroTitleStart": "Analiza tus",
+  "landing.heroTitleHighlight": " datos ",
+  "landing.heroTitleEnd": "como nunca antes",
+  "landing.heroSubtitle":
+    "Convierte tus archivos de Excel en conversaciones inteligentes. Haz preguntas, obtén respuestas al instante y genera informes profesionales con el poder de la IA.",
+  "landing.startAnalyzing": "Empezar a analizar",
+  "landing.watchDemo": "Ver demo",
+  "landing.featuresTitle": "Funciones potentes",
+  "landing.featuresSubtitle":
+    "Todo lo que necesitas para convertir tus datos en información accionable",
+  "landing.feature.ai.title": "Análisis con IA",
+  "landing.feature.ai.description":
+    "Inteligencia artificial avanzada analiza tus datos financieros y entrega conclusiones en tiempo real.",
+  "landing.feature.insights.title": "Respuestas al instante",
+  "landing.feature.insights.description":
+    "Respuestas inmediatas a preguntas complejas sobre tu cartera, evaluación de riesgo y métricas de desempeño.",
+  "landing.feature.charts.title": "Visualizaciones dinámicas",
+  "landing.feature.charts.description":
+    "Gráficas interactivas que se adaptan a tus preguntas y revelan patrones ocultos.",
+  "landing.feature.security.title": "Seguro y privado",
+  "landing.feature.security.description":
+    "Tus datos están protegidos con sesiones de 2 días, sin almacenamiento permanente y seguridad de nivel empresarial.",
+  "landing.stat.speed.label": "Análisis más rápido",
+  "landing.stat.speed.description": "Frente al análisis manual en Excel",
+  "landing.stat.accuracy.label": "Precisión",
+  "landing.stat.accuracy.description": "Interpretación de datos con IA",
+  "landing.stat.setup.label": "Puesta en marcha",
+  "landing.stat.setup.description": "De la carga a los resultados",
+  "landing.stat.availability.label": "Disponible",
+  "landing.stat.availability.description": "Analiza datos cuando quieras",
+  "landing.ctaTitleStart": "¿Listo para transformar tu",
+  "landing.ctaTitleHighlight": " análisis?",
+  "landing.ctaSubtitle":
+    "Únete a miles de analistas que revolucionaron su trabajo con datos gracias a la IA.",
+  "landing.ctaButton": "Comienza tu análisis gratis",
+  "landing.ctaNote":
+    "Sin registro • Sesiones gratuitas de 2 días • Listo para empresas",
+
+  "preview.summary": "{rows} filas • {columns} columnas",
+  "preview.sheet": "Hoja",
+  "preview.sheetOption": "{name} ({rows} filas)",
+  "preview.previous": "Anterior",
+  "preview.next": "Siguiente",
+  "preview.page": "Página {page} de {total}",
+  "preview.cancel": "Elegir otro archivo",
+  "preview.confirm": "Subir y analizar",
+
+  "upload.noSheets": "El archivo no contiene ninguna hoja",
+  "upload.readError": "No se pudo leer el archivo",
+  "upload.invalidType": "Tipo de archivo no admitido. Usa {extensions}.",
+  "upload.emptyFile": "El archivo está vacío",
+  "upload.tooLarge": "El archivo pesa {size}; el límite es {max}",
+  "upload.progress": "Subiendo {loaded} de {total} ({percent}%)",
+  "upload.progressChunked":
+    "Subiendo por partes: {loaded} de {total} ({percent}%)",
+  "upload.resumed": "Reanudando la subida anterior de este archivo",
+  "upload.cancel": "Cancelar subida",
+  "upload.processing": "Procesando tu archivo...",
+  "upload.reading": "Leyendo tu archivo...",
+  "upload.title": "Sube un Excel o CSV",
+  "upload.analyzing": "Analizando los datos con IA...",
+  "upload.hint":
+    "Arrastra y suelta o haz clic para elegir tus datos financieros",
+  "upload.questionPlaceholder": "Haz una pregunta inicial sobre tus datos...",
+  "upload.analyzingShort": "Analizando con IA...",
+  "upload.screenTitle": "¿Listo para analizar tus datos?",
+  "upload.screenDescription":
+    "Sube tu archivo de Excel o CSV y empieza a conversar sobre tus datos financieros",
+  "upload.openConversation": "📂 Abrir conversación exportada (.json)",
+  "upload.preview.analytics.title": "Analítica inteligente",
+  "upload.preview.analytics.description":
+    "Haz preguntas y obtén respuestas al instante con visualizaciones claras",
+  "upload.preview.conversation.title": "Conversación natural",
+  "upload.preview.conversation.description":
+    "Habla de tus datos como lo harías con un analista experto",
+  "upload.preview.reports.title": "Informes estratégicos",
+  "upload.preview.reports.description":
+    "Genera informes profesionales con recomendaciones accionables",
+  "upload.success": "¡Archivo subido! Empieza a hacer preguntas.",
+  "upload.welcome":
+    "✅ ¡Archivo procesado correctamente!\n\n- 📊 **{rows} registros** cargados\n- 📋 **{columns} columnas** detectadas\n- ⏰ Sesión válida por **{validFor}**\n\n¡Ya puedes preguntarme lo que quieras sobre tus datos!",
+
+  "header.title": "Excel AI Analyst",
+  "header.subtitle": "Análisis inteligente de datos con IA",
+  "header.records": "{count} registros",
+  "session.expired": "Sesión vencida",
+  "session.validFor": "Sesión válida por {time}",
+  "session.expiresIn": "La sesión vence en {time}",
+  "session.warning":
+    "La sesión vence en {time}. Genera tu informe antes de que termine.",
+
+  "report.generate": "Generar informe",
+  "report.pdf": "Informe PDF",
+  "report.cancel": "Cancelar informe",
+  "report.cancelProgress": "Cancelar informe ({percent}%)",
+  "report.cancelTitle": "Cancelar la generación del informe",
+  "report.generating": "🔄 **Generando informe estratégico...**",
+  "report.status.generating":
+    "Analizando tus datos y preparando conclusiones{attempt}...",
+  "report.status.downloading": "Descargando el informe{attempt}...",
+  "report.status.downloadingProgress":
+    "Descargando el informe {percent}%{attempt}",
+  "report.status.retrying":
+    "Problema temporal, reintentando en breve{attempt}...",
+  "report.attempt": " (intento {attempt} de {total})",
+  "report.success":
+    "📥 **Informe estratégico generado**\n\n- ✅ Archivo: {fileName}\n- 📁 Formato: {format}\n- 📊 {scope}\n\nEl informe se descargó en tu equipo.",
+  "report.scopeBoard": "{count} secciones de tu tablero",
+  "report.scopeFull": "Análisis completo con visualizaciones y recomendaciones",
+  "report.cancelled": "⏹️ **Generación del informe cancelada**",
+  "report.error":
+    "❌ **Error al generar el informe**\n\nHubo un problema al crear tu informe estratégico: {error}\n\nIntenta de nuevo o contacta a soporte si el problema continúa.",
+  "error.unknown": "Error desconocido",
+  "error.network":
+    "No se pudo conectar con el servidor. Revisa tu conexión e inténtalo de nuevo.",
+  "error.timeout": "El servidor tardó demasiado en responder.",
+  "error.validation": "El servidor rechazó la solicitud: {detail}",
+  "error.sessionExpired":
+    "Tu sesión venció. Vuelve a subir el archivo para continuar.",
+  "error.rateLimited":
+    "Demasiadas solicitudes. Espera un momento e inténtalo de nuevo.",
+  "error.rateLimitedWait":
+    "Demasiadas solicitudes. Inténtalo de nuevo en {seconds} s.",
+  "error.server":
+    "El servidor tuvo un problema ({status}). Inténtalo de nuevo en un momento.",
+  "error.retry": "Reintentar",
+  "error.reupload": "Volver a subir",
+  "error.dismiss": "Cerrar",
+
+  "chat.thinking": "La IA está analizando tus datos...",
+  "chat.placeholder":
+    "Pregunta lo que quieras sobre tus datos... Escribe / para comandos o @ para columnas",
+  "chat.enterHint": "Presiona Enter para enviar",
+  "chat.send": "Enviar",
+  "chat.stop": "Detener",
+  "chat.stopped": "⏹️ Respuesta detenida.",
+  "chat.error": "❌ Error: {error}",
+  "chat.importError": "No se pudo abrir la conversación",
+
+  "command.report": "Generar el informe Word",
+  "command.chart": "Pedir una gráfica de una columna",
+  "command.clear":
+    "Borrar los mensajes, lo fijado de ellos y el historial de entrada",
+  "command.export": "Exportar la conversación",
+  "command.column": "columna",
+  "command.chartQuestion": "Muestra una gráfica de tipo {type} de {column}",
+  "command.unknown":
+    "Comando desconocido /{name}. Prueba /report, /chart, /clear o /export.",
+  "command.chartUsage": "Uso: /chart bar|line|area|pie <columna>",
+  "command.unknownColumn": 'No se encontró la columna "{column}"',
+  "command.exportUsage": "Uso: /export md|html|json",
+  "sidebar.quickAnalysis": "Análisis rápido",
+  "prompts.suggested": "Sugeridas para este archivo",
+  "prompts.saved": "Mis preguntas",
+  "prompts.empty":
+    "Guarda las preguntas que haces seguido. Usa marcadores como {category} o el nombre de una columna.",
+  "prompts.allCategories": "Todas las categorías",
+  "prompts.defaultCategory": "General",
+  "prompts.suggestedCategory": "Sugeridas",
+  "prompts.new": "Nueva pregunta",
+  "prompts.saveCurrent": "Guardar la pregunta actual",
+  "prompts.saveSuggestion": "Guardar en mis preguntas",
+  "prompts.delete": "Eliminar pregunta",
+  "prompts.textPlaceholder": "p. ej. Muestra {amount} por {category}",
+  "prompts.categoryPlaceholder": "Categoría",
+  "prompts.save": "Guardar",
+  "prompts.cancel": "Cancelar",
+  "prompts.fillTitle": "Elige las columnas",
+  "prompts.pickColumn": "Selecciona una columna",
+  "prompts.use": "Usar pregunta",
+  "prompts.export": "Exportar",
+  "prompts.import": "Importar",
+  "prompts.imported": "{count} preguntas importadas",
+  "suggest.total": "¿Cuál es el total de {column}?",
+  "suggest.byCategory": "Muestra {measure} por {category}",
+  "suggest.distribution": "Muestra la distribución por {column}",
+  "suggest.trend": "¿Cómo evolucionó {measure} a lo largo de {date}?",
+  "suggest.average": "¿Cuál es el promedio de {column}?",
+  "suggest.outliers": "¿Hay valores atípicos en {column}?",
+  "sidebar.sessionActive": "Sesión activa",
+  "sidebar.records": "Registros:",
+  "sidebar.columns": "Columnas:",
+  "sidebar.validFor": "Válida por:",
+  "sidebar.expiresIn": "Vence en:",
+  "sidebar.expired": "Vencida",
+  "sidebar.uploadNew": "📎 Subir otro archivo",
+  "sidebar.reportBoard": "Tablero del informe",
+  "sidebar.boardEmpty":
+    "Fija respuestas y gráficas para armar un informe a medida.",
+  "sidebar.boardCount": "{count} elementos en el tablero",
+  "sidebar.boardCountOne": "1 elemento en el tablero",
+  "sidebar.openBoard": "Abrir tablero",
+  "sidebar.generatedReports": "Informes generados",
+  "sidebar.downloadAgain": "Descargar de nuevo",
+  "sidebar.removeFromList": "Quitar de la lista",
+  "sidebar.exportConversation": "Exportar conversación",
+  "sidebar.exportMarkdown": "Markdown (.md)",
+  "sidebar.exportHtml": "Página HTML (.html)",
+  "sidebar.exportJson": "JSON, reimportable (.json)",
+  "datasets.title": "Datasets",
+  "datasets.summary": "{fileName} • {rows} registros • {columns} columnas",
+  "datasets.rename": "Renombrar dataset",
+  "datasets.target": "Preguntar sobre este dataset",
+  "datasets.targeted":
+    "Las preguntas van a este dataset (clic para preguntar sobre todos)",
+  "datasets.add": "Agregar archivos",
+  "datasets.added":
+    "📎 Dataset **{name}** agregado: {rows} registros, {columns} columnas.",
+  "datasets.queued":
+    "{count} archivo(s) más se agregarán como datasets: {names}",
+  "datasets.askAbout": "Preguntar sobre",
+  "datasets.all": "Todos los datasets",
+  "datasets.allJoined": "Todos los datasets (cruzados)",
+  "datasets.joins": "Claves de cruce",
+  "datasets.joinHint":
+    "Indica cómo se relacionan las filas entre archivos para hacer preguntas que los crucen.",
+  "datasets.addJoin": "Agregar cruce",
+  "datasets.removeJoin": "Quitar cruce",
+  "explorer.tab": "Explorador de datos",
+  "explorer.chatTab": "Chat",
+  "explorer.search": "Buscar en las columnas visibles...",
+  "explorer.columns": "Columnas ({shown}/{total})",
+  "explorer.moveLeft": "Mover a la izquierda",
+  "explorer.moveRight": "Mover a la derecha",
+  "explorer.sort": "Ordenar por esta columna",
+  "explorer.filter": "Filtrar",
+  "explorer.filterHint":
+    "Texto, > 100, <= 5, = Vigente, != 0 o un rango como 10..20",
+  "explorer.noRows": "Ninguna fila cumple los filtros",
+  "explorer.rowCount": "{shown} de {total} filas",
+  "explorer.clearFilters": "Quitar filtros",
+  "explorer.ask": "Preguntar sobre esta selección",
+  "explorer.askHint": "Primero filtra o busca filas",
+  "explorer.askPrompt":
+    'Considerando solo las filas de "{dataset}" donde {conditions}: ',
+  "explorer.sampleOnly":
+    "Se muestra la muestra de {shown} filas de {total}; el archivo completo no se pudo leer en el navegador",
+  "explorer.conditionRange": "{column} entre {min} y {max}",
+  "explorer.conditionContains": '{column} contiene "{value}"',
+  "explorer.conditionSearch": 'alguna columna contiene "{value}"',
+  "verify.matched":
+    "Verificado localmente: {count} valores coinciden con el archivo",
+  "verify.mismatch": "{count} de {total} valores no coinciden con el archivo",
+  "verify.detail": "{label}: informado {reported}, el archivo da {expected}",
+  "verify.note":
+    "Recalculado en tu navegador a partir de las filas subidas. Las respuestas sobre una parte de los datos pueden diferir a propósito.",
+  "upload.fileOf": "Archivo {index} de {count}: {name}",
+  "sidebar.numberFormat": "Formato numérico",
+  "sidebar.locale": "Región",
+  "sidebar.currency": "Moneda",
+  "sidebar.negatives": "Negativos",
+  "sidebar.compact": "Montos compactos",
+  "sidebar.recentSessions": "Sesiones recientes",
+  "sidebar.sessionSummary": "{rows} registros • {questions} preguntas • {date}",
+  "sidebar.removeSession": "Eliminar sesión",
+  "sidebar.dataStructure": "Estructura de datos",
+  "sidebar.searchColumns": "Buscar entre {count} columnas...",
+  "sidebar.insertColumn": "Insertar el nombre de la columna en la pregunta",
+  "sidebar.nulls": "{count} vacíos",
+  "sidebar.distinct": "{count} distintos",
+  "sidebar.noColumns": "Ninguna columna coincide",
+  "chart.unsupported": "Tipo de gráfica no soportado",
+  "chart.pieSingleSeries":
+    "Una gráfica de torta muestra una sola serie; esta tiene {count}",
+  "chart.export": "Exportar gráfica",
+  "chart.downloadPng": "Descargar PNG",
+  "chart.downloadSvg": "Descargar SVG",
+  "chart.copyImage": "Copiar imagen",
+  "chart.dataCsv": "Datos en CSV",
+  "chart.dataXlsx": "Datos en XLSX",
+  "chart.copied": "¡Copiada!",
+  "chart.notRendered": "La gráfica todavía no se dibujó",
+  "chart.clipboardUnsupported": "Este navegador no puede copiar imágenes",
+  "chart.exportFailed": "No se pudo exportar",
+  "chart.pin": "Fijar la gráfica en el tablero del informe",
+  "chart.unpin": "Quitar la gráfica del tablero",
+  "chart.expand": "Ampliar gráfica",
+  "chart.type.bar": "Barras",
+  "chart.type.line": "Líneas",
+  "chart.type.area": "Área",
+  "chart.type.pie": "Torta",
+  "chart.type.scatter": "Dispersión",
+  "chart.type.combo": "Combinada",
+  "chart.sort": "Orden",
+  "chart.sortNone": "Original",
+  "chart.sortDesc": "Mayor primero",
+  "chart.sortAsc": "Menor primero",
+  "chart.show": "Mostrar",
+  "chart.showAll": "Todos",
+  "chart.showTop": "Primeros {count}",
+  "chart.format": "Formato",
+  "chart.formatAuto": "Automático",
+  "chart.formatNumber": "Número",
+  "chart.formatCurrency": "Moneda",
+  "chart.formatPercent": "Porcentaje",
+  "chart.formatThousands": "Miles (K/M)",
+  "answer.pin": "Fijar la respuesta en el tablero del informe",
+  "answer.unpin": "Quitar la respuesta del tablero",
+  "answer.rawCalculations": "Cálculos sin procesar",
+  "report.builderHint":
+    "Elige las respuestas a incluir. Cada una será una sección con sus métricas y su gráfica, después de una portada.",
+  "report.analysis": "Análisis",
+  "report.tagMetrics": "métricas",
+  "report.tagChart": "gráfica",
+  "report.close": "Cancelar",
+  "report.buildingPdf": "Armando el PDF...",
+  "report.downloadPdf": "Descargar PDF",
+  "report.downloadPdfSections": "Descargar PDF ({count} secciones)",
+  "report.downloadPdfSectionsOne": "Descargar PDF (1 sección)",
+  "report.pdfFailed": "No se pudo armar el PDF",
+  "report.buildFailed": "No se pudo armar el informe",
+  "report.boardTitle": "Tablero del informe",
+  "report.boardEmptyBefore": "Fija respuestas o gráficas del chat con el botón",
+  "report.boardEmptyAfter": "y ordénalas aquí con tus propios títulos y notas.",
+  "report.headingPlaceholder": "Título de la sección",
+  "report.notePlaceholder": "Nota o comentario",
+  "report.moveUp": "Subir",
+  "report.moveDown": "Bajar",
+  "report.removeFromBoard": "Quitar del tablero",
+  "report.addHeading": "Agregar título",
+  "report.addNote": "Agregar nota",
+  "report.generateWord": "Generar informe Word",
+  "report.generatingWord": "Generando...",
+  "session.expiredText":
+    "El servidor ya no tiene {file}. Súbelo de nuevo para seguir analizando.",
+  "session.yourFile": "tu archivo",
+  "session.replay":
+    "Repetir las {count} preguntas anteriores en la nueva sesión",
+  "session.replayOne": "Repetir la pregunta anterior en la nueva sesión",
+  "session.reupload": "Volver a subir {name}",
+  "session.chooseFile": "Elegir archivo...",
+  "viewer.summary":
+    "Conversación de solo lectura • {records} registros • exportada el {date}",
+  "viewer.close": "Cerrar",
+  "metric.totalRegistros": "Total de créditos",
+  "metric.montoTotalUSD": "Monto desembolsado",
+  "metric.saldoPendienteTotal": "Saldo pendiente",
+  "metric.promedioTasaInteres": "Tasa de interés promedio",
+  "metric.registrosVencidos": "Registros vencidos",
+  "metric.items": "{count} elementos",
+  "metric.itemsOne": "1 elemento",
+  "export.title": "Conversación de Excel AI — {name}",
+  "export.records": "Registros: {count}",
+  "export.columns": "Columnas: {count}",
+  "export.exportedAt": "Exportada: {date}",
+  "export.summary":
+    "{records} registros · {columns} columnas · exportada el {date}",
+  "export.question": "Pregunta",
+  "export.answer": "Respuesta de la IA",
+  "export.metric": "Métrica",
+  "export.value": "Valor",
+  "export.label": "Etiqueta",
+  "pdf.title": "Informe estratégico de datos",
+  "pdf.generated": "Generado: {date}",
+  "pdf.sections": "Secciones: {count}",
+  "pdf.keyMetrics": "Métricas clave",
+  "pdf.page": "Página {page} de {total}",
+  "import.invalidJson": "El archivo no es un JSON válido",
+  "import.newerVersion":
+    "El archivo se exportó con una versión más nueva de la app",
+  "import.damaged": "El archivo está incompleto o dañado",
+  "import.notConversation":
+    "El archivo no es una conversación exportada de Excel AI",
+  "import.notPromptLibrary":
+    "El archivo no es una biblioteca de prompts exportada",
+  "session.replayBlocked":
+    "Las preguntas no se repetirán: falta el archivo de {names} y las respuestas usarían otros datos. Vuelve a agregar los archivos que faltan en Datasets.",
+  "verify.unavailable":
+    "Sin verificar: las filas del archivo no están cargadas en esta pestaña (por ejemplo, después de recargar la página)",
+  "report.formatDocx": "Microsoft Word",
+  "report.formatPdf": "PDF",
+  "report.formatTxt": "Texto plano (.txt)",
+};
+
+const CATALOGS: Record<Language, Catalog> = { en, es };
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+// Reemplaza {nombre} por el parámetro; deja el marcador si falta
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  params?: TranslateParams
+) =>
+  CATALOGS[language][key].replace(/\{(\w+)\}/g, (match, name) =>
+    params && name in params ? String(params[name]) : match
+  );
+
+const LANGUAGE_KEY = "excel-ai:language";
+
+export const loadLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (stored === "es" || stored === "en") return stored;
+  } catch {
+    // Sin almacenamiento: se usa el idioma del navegador
+  }
+  return navigator.language?.toLowerCase().startsWith("es") ? "es" : "en";
+};
+
+export const saveLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (err) {
+    console.error("Could not persist language:", err);
+  }
+};
+
+export interface I18n {
+  language: Language;
+  t: Translate;
+}
+
+export const createI18n = (language: Language): I18n => ({
+  language,
+  t: (key, params) => translate(language, key, params),
+});
+
+// Fuera de React (exportaciones, pruebas) se traduce al inglés salvo que
+// se pase el idioma de la interfaz
+export const defaultI18n = createI18n("en");
+
+export const I18nContext = createContext<I18n>(defaultI18n);
+
+export const useI18n = (): I18n => useContext(I18nContext);
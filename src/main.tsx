@@ -1,11 +1,19 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { ApiClientContext, createHttpClient } from './api.ts'
+import { createMockClient } from './mockClient.ts'
 import './index.css'
 import './App.css'  
 
+// VITE_API_MOCK=true trabaja sin backend, parseando el archivo en el navegador
+const apiClient =
+  import.meta.env.VITE_API_MOCK === 'true' ? createMockClient() : createHttpClient()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <ApiClientContext.Provider value={apiClient}>
+      <App />
+    </ApiClientContext.Provider>
   </React.StrictMode>,
-)
\ No newline at end of file
+)
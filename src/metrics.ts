@@ -0,0 +1,183 @@
+import type { Aggregation } from "./aggregations";
+import { defaultFormatter, type NumberFormatter } from "./format";
+import { defaultI18n, type MessageKey, type Translate } from "./i18n";
+import { CURRENCY_NAME_HINT, PERCENT_NAME_HINT } from "./schema";
+
+export type MetricFormat =
+  | "currency"
+  | "percent"
+  | "count"
+  | "number"
+  | "text"
+  | "list";
+
+export type MetricColor = "blue" | "green" | "orange" | "purple" | "slate";
+
+// Cómo recalcular la métrica en el navegador: agregación sobre la primera
+// columna numérica que coincide con `column`, opcionalmente solo en atraso
+export interface MetricSource {
+  aggregation: Aggregation;
+  column?: RegExp;
+  overdue?: boolean;
+}
+
+export interface MetricDefinition {
+  label: MessageKey;
+  format: MetricFormat;
+  color?: MetricColor;
+  source?: MetricSource;
+}
+
+export interface Metric {
+  key: string;
+  label: string;
+  format: MetricFormat;
+  value: string;
+  color: MetricColor;
+}
+
+// Campos conocidos del backend; el resto se etiqueta y formatea por inferencia
+export const METRIC_REGISTRY: Record<string, MetricDefinition> = {
+  totalRegistros: {
+    label: "metric.totalRegistros",
+    format: "count",
+    color: "blue",
+    source: { aggregation: "count" },
+  },
+  montoTotalUSD: {
+    label: "metric.montoTotalUSD",
+    format: "currency",
+    color: "green",
+    source: { aggregation: "sum", column: /monto|amount|desembols/i },
+  },
+  saldoPendienteTotal: {
+    label: "metric.saldoPendienteTotal",
+    format: "currency",
+    color: "orange",
+    source: { aggregation: "sum", column: /saldo|balance/i },
+  },
+  promedioTasaInteres: {
+    label: "metric.promedioTasaInteres",
+    format: "percent",
+    color: "purple",
+    source: { aggregation: "mean", column: /tasa|rate|interes/i },
+  },
+  registrosVencidos: {
+    label: "metric.registrosVencidos",
+    format: "count",
+    color: "orange",
+    source: { aggregation: "count", overdue: true },
+  },
+};
+
+const COUNT_NAME_HINT = /^(total|num|cantidad|count)|registros|count|cantidad/i;
+
+const FORMAT_COLORS: Record<MetricFormat, MetricColor> = {
+  currency: "green",
+  percent: "purple",
+  count: "blue",
+  number: "slate",
+  text: "slate",
+  list: "slate",
+};
+
+// "saldoPendiente_total" -> "Saldo pendiente total"
+export const humanizeKey = (key: string) => {
+  const words = key
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const metricLabel = (key: string, t: Translate = defaultI18n.t) => {
+  const known = METRIC_REGISTRY[key];
+  return known ? t(known.label) : humanizeKey(key);
+};
+
+export const inferMetricFormat = (
+  key: string,
+  value: unknown
+): MetricFormat => {
+  if (Array.isArray(value)) return "list";
+  if (typeof value !== "number") return "text";
+  if (PERCENT_NAME_HINT.test(key)) return "percent";
+  if (CURRENCY_NAME_HINT.test(key)) return "currency";
+  if (COUNT_NAME_HINT.test(key) && Number.isInteger(value)) return "count";
+  return "number";
+};
+
+const formatListItem = (item: unknown) =>
+  item !== null && typeof item === "object"
+    ? JSON.stringify(item)
+    : String(item);
+
+export const formatMetricValue = (
+  value: unknown,
+  format: MetricFormat,
+  formatter: NumberFormatter = defaultFormatter,
+  t: Translate = defaultI18n.t
+) => {
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? "—"
+      : value.every((item) => item === null || typeof item !== "object")
+      ? value.map(formatListItem).join(", ")
+      : value.length === 1
+      ? t("metric.itemsOne")
+      : t("metric.items", { count: value.length });
+  }
+  if (typeof value !== "number") return String(value);
+  switch (format) {
+    case "currency":
+      return formatter.currency(value);
+    case "percent":
+      return formatter.percent(value);
+    case "count":
+      return formatter.count(value);
+    default:
+      return formatter.number(value);
+  }
+};
+
+const isDisplayable = (value: unknown) =>
+  typeof value === "number"
+    ? Number.isFinite(value)
+    : typeof value === "string" ||
+      typeof value === "boolean" ||
+      Array.isArray(value);
+
+// Toda métrica mostrable de calculations: números, textos, booleanos y listas.
+// Los objetos anidados y los valores nulos solo aparecen en la vista cruda.
+export const getMetrics = (
+  calculations: unknown,
+  formatter: NumberFormatter = defaultFormatter,
+  t: Translate = defaultI18n.t
+): Metric[] => {
+  if (!calculations || typeof calculations !== "object") return [];
+  return Object.entries(calculations as Record<string, unknown>)
+    .filter(([, value]) => isDisplayable(value))
+    .map(([key, value]) => {
+      const known = METRIC_REGISTRY[key];
+      const format = known?.format ?? inferMetricFormat(key, value);
+      return {
+        key,
+        label: metricLabel(key, t),
+        format,
+        value: formatMetricValue(value, format, formatter, t),
+        color: known?.color ?? FORMAT_COLORS[format],
+      };
+    });
+};
+
+// Métricas como pares etiqueta/valor para las exportaciones
+export const metricEntries = (
+  calculations: unknown,
+  formatter?: NumberFormatter,
+  t?: Translate
+): [string, string][] =>
+  getMetrics(calculations, formatter, t).map((metric) => [
+    metric.label,
+    metric.value,
+  ]);
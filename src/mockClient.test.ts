@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import { SessionExpiredError, ValidationError } from "./apiErrors";
+import { createMockClient } from "./mockClient";
+
+const CSV = [
+  "agencia,calificacion,monto,saldo,tasa,diasMora",
+  "Norte,A,1000,400,10,0",
+  "Sur,B,2000,1500,12,15",
+  "Norte,A,3000,2500,14,0",
+  "Centro,C,500,100,16,40",
+].join("\n");
+
+const csvFile = (name = "cartera.csv", content = CSV) =>
+  new File([content], name, { type: "text/csv" });
+
+const formDataFor = (file: File, fields: Record<string, string> = {}) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return formData;
+};
+
+describe("mock client", () => {
+  describe("upload", () => {
+    it("opens a session with the parsed columns and a sample", async () => {
+      const client = createMockClient();
+      const progress: number[] = [];
+      const result = await client.upload(formDataFor(csvFile()), {
+        onProgress: (loaded) => progress.push(loaded),
+      });
+
+      expect(result.sessionId).toMatch(/^mock-/);
+      expect(result.datasetId).toBeDefined();
+      expect(result.totalRows).toBe(4);
+      expect(result.columns).toEqual([
+        "agencia",
+        "calificacion",
+        "monto",
+        "saldo",
+        "tasa",
+        "diasMora",
+      ]);
+      expect(result.sampleData).toHaveLength(4);
+      expect(new Date(result.expiresAt!).getTime()).toBeGreaterThan(Date.now());
+      expect(progress.at(-1)).toBe(csvFile().size);
+    });
+
+    it("answers the initial question", async () => {
+      const client = createMockClient();
+      const result = await client.upload(
+        formDataFor(csvFile(), { question: "Resumen general" })
+      );
+
+      expect(result.initialQuestion).toBe("Resumen general");
+      expect(result.initialResponse?.calculations).toMatchObject({
+        totalRegistros: 4,
+        montoTotalUSD: 6500,
+        saldoPendienteTotal: 4500,
+        promedioTasaInteres: 13,
+      });
+    });
+
+    it("adds a second file to an existing session as a dataset", async () => {
+      const client = createMockClient();
+      const first = await client.upload(formDataFor(csvFile()));
+      const second = await client.upload(
+        formDataFor(csvFile("agencias.csv", "agencia,region\nNorte,La Paz"), {
+          sessionId: first.sessionId!,
+        })
+      );
+
+      expect(second.sessionId).toBe(first.sessionId);
+      expect(second.datasetId).not.toBe(first.datasetId);
+      expect(second.columns).toEqual(["agencia", "region"]);
+    });
+
+    it("rejects a request without a file", async () => {
+      const client = createMockClient();
+      await expect(client.upload(new FormData())).rejects.toBeInstanceOf(
+        ValidationError
+      );
+    });
+  });
+
+  describe("chat", () => {
+    it("counts overdue records", async () => {
+      const client = createMockClient();
+      const { sessionId } = await client.upload(formDataFor(csvFile()));
+      const result = await client.chat({
+        question: "¿Cuántos créditos están vencidos?",
+        sessionId,
+      });
+
+      expect(result.response?.calculations).toMatchObject({
+        registrosVencidos: 2,
+      });
+    });
+
+    it("groups records for distribution questions", async () => {
+      const client = createMockClient();
+      const { sessionId } = await client.upload(formDataFor(csvFile()));
+      const result = await client.chat({
+        question: "Distribución por calificación",
+        sessionId,
+      });
+
+      expect(result.response?.chartData).toMatchObject({
+        type: "pie",
+        labels: ["A", "B", "C"],
+        data: [2, 1, 1],
+      });
+    });
+
+    it("answers over the joined datasets", async () => {
+      const client = createMockClient();
+      const first = await client.upload(formDataFor(csvFile()));
+      const second = await client.upload(
+        formDataFor(
+          csvFile("agencias.csv", "agencia,region\nNorte,La Paz\nSur,Tarija"),
+          { sessionId: first.sessionId! }
+        )
+      );
+      const result = await client.chat({
+        question: "Resumen",
+        sessionId: first.sessionId,
+        joins: [
+          {
+            left: { datasetId: first.datasetId!, column: "agencia" },
+            right: { datasetId: second.datasetId!, column: "agencia" },
+          },
+        ],
+      });
+
+      // "Centro" no tiene región: el inner join lo descarta
+      expect(result.response?.calculations).toMatchObject({
+        totalRegistros: 3,
+      });
+    });
+
+    it("rejects unknown or expired sessions", async () => {
+      const client = createMockClient();
+      await expect(
+        client.chat({ question: "Resumen", sessionId: "mock-missing" })
+      ).rejects.toBeInstanceOf(SessionExpiredError);
+    });
+
+    it("stops when the request is aborted", async () => {
+      const client = createMockClient();
+      const { sessionId } = await client.upload(formDataFor(csvFile()));
+      const controller = new AbortController();
+      const pending = client.chat(
+        { question: "Resumen", sessionId },
+        controller.signal
+      );
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+
+  describe("chatStream", () => {
+    it("emits the answer token by token, then its attachments", async () => {
+      const client = createMockClient();
+      const { sessionId } = await client.upload(formDataFor(csvFile()));
+      const tokens: string[] = [];
+      const events: string[] = [];
+      const answer = await client.chatStream(
+        { question: "Resumen", sessionId },
+        {
+          onToken: (text) => {
+            tokens.push(text);
+            events.push("token");
+          },
+          onCalculations: () => events.push("calculations"),
+          onChartData: () => events.push("chartData"),
+        }
+      );
+
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.join("")).toBe(answer.aiResponse);
+      expect(events.at(-1)).toBe("calculations");
+      expect(events).not.toContain("chartData");
+    });
+  });
+
+  describe("generateReportWord", () => {
+    it("returns a plain text report and reports download progress", async () => {
+      const client = createMockClient();
+      const { sessionId } = await client.upload(formDataFor(csvFile()));
+      const progress: number[] = [];
+      const blob = await client.generateReportWord(
+        { sessionId: sessionId! },
+        { onProgress: (loaded, total) => progress.push(loaded / total!) }
+      );
+
+      expect(blob.type).toBe("text/plain");
+      const text = await blob.text();
+      expect(text).toContain("File: cartera.csv");
+      expect(text).toContain("montoTotalUSD: 6500");
+      expect(progress.at(-1)).toBe(1);
+    });
+
+    it("follows the board outline when one is given", async () => {
+      const client = createMockClient();
+      const { sessionId } = await client.upload(formDataFor(csvFile()));
+      const blob = await client.generateReportWord({
+        sessionId: sessionId!,
+        outline: [
+          { type: "heading", text: "Cartera" },
+          { type: "answer", question: "¿Mora?", text: "Dos créditos" },
+        ],
+      });
+      const text = await blob.text();
+
+      expect(text).toContain("## Cartera");
+      expect(text).toContain("Q: ¿Mora?");
+      expect(text).not.toContain("montoTotalUSD");
+    });
+  });
+});
@@ -0,0 +1,447 @@
+import type { ApiClient, UploadFields, UploadOptions } from "./api";
+import { SessionExpiredError, ValidationError } from "./apiErrors";
+import type { Row } from "./csv";
+import { sleep } from "./retry";
+import { parseSpreadsheet } from "./spreadsheet";
+import type {
+  AnalysisResponse,
+  ApiResponse,
+  ChartData,
+  DatasetJoin,
+} from "./types";
+
+interface MockDataset {
+  fileName: string;
+  columns: string[];
+  rows: Row[];
+}
+
+// El primer archivo ocupa los campos de la sesión y también está en `datasets`
+interface MockSession extends MockDataset {
+  expiresAt: string;
+  datasets: Map<string, MockDataset>;
+}
+
+const SESSION_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+const LATENCY_MS = 400;
+const SAMPLE_SIZE = 5;
+
+const TOKEN_DELAY_MS = 40;
+
+const values = (rows: Row[], column: string) => rows.map((row) => row[column]);
+
+const numbers = (rows: Row[], column: string) =>
+  values(rows, column).filter((v): v is number => typeof v === "number");
+
+const sum = (list: number[]) => list.reduce((acc, n) => acc + n, 0);
+
+const isNumericColumn = (rows: Row[], column: string) => {
+  const present = values(rows, column).filter((v) => v !== null);
+  return present.length > 0 && present.every((v) => typeof v === "number");
+};
+
+const findColumn = (session: MockDataset, pattern: RegExp, numeric = true) =>
+  session.columns.find(
+    (col) => pattern.test(col) && isNumericColumn(session.rows, col) === numeric
+  );
+
+// Columna categórica con pocos valores distintos, útil para agrupar
+const findCategoryColumn = (session: MockDataset, pattern?: RegExp) => {
+  const candidates = session.columns.filter((col) => {
+    if (isNumericColumn(session.rows, col)) return false;
+    const distinct = new Set(values(session.rows, col)).size;
+    return distinct >= 2 && distinct <= 20;
+  });
+  return (
+    (pattern && candidates.find((col) => pattern.test(col))) || candidates[0]
+  );
+};
+
+const buildCalculations = (session: MockDataset) => {
+  const calculations: Record<string, number> = {
+    totalRegistros: session.rows.length,
+  };
+  const amount = findColumn(session, /monto|amount|desembols/i);
+  const balance = findColumn(session, /saldo|balance/i);
+  const rate = findColumn(session, /tasa|rate|interes/i);
+
+  if (amount) calculations.montoTotalUSD = sum(numbers(session.rows, amount));
+  if (balance) {
+    calculations.saldoPendienteTotal = sum(numbers(session.rows, balance));
+  }
+  if (rate) {
+    const rates = numbers(session.rows, rate);
+    if (rates.length > 0) {
+      calculations.promedioTasaInteres = sum(rates) / rates.length;
+    }
+  }
+  return calculations;
+};
+
+const groupBy = (
+  session: MockDataset,
+  category: string,
+  measure?: string
+): { labels: string[]; data: number[] } => {
+  const totals = new Map<string, number>();
+  for (const row of session.rows) {
+    const key = String(row[category] ?? "N/A");
+    const value = measure ? Number(row[measure]) || 0 : 1;
+    totals.set(key, (totals.get(key) ?? 0) + value);
+  }
+  const entries = [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10);
+  return {
+    labels: entries.map(([label]) => label),
+    data: entries.map(([, value]) => value),
+  };
+};
+
+const sumByLabel = (
+  session: MockDataset,
+  category: string,
+  measure: string,
+  labels: string[]
+) =>
+  labels.map((label) =>
+    sum(
+      session.rows
+        .filter((row) => String(row[category] ?? "N/A") === label)
+        .map((row) => Number(row[measure]) || 0)
+    )
+  );
+
+const answerQuestion = (
+  session: MockDataset,
+  question: string
+): AnalysisResponse => {
+  const q = question.toLowerCase();
+
+  if (/vencid|overdue|mora|atras/.test(q)) {
+    const daysColumn = findColumn(
+      session,
+      /mora|atras|vencid|overdue|past.?due/i
+    );
+    const overdue = daysColumn
+      ? session.rows.filter((row) => Number(row[daysColumn]) > 0).length
+      : 0;
+    return {
+      type: "analysis",
+      aiResponse: daysColumn
+        ? `**${overdue.toLocaleString()}** of ${session.rows.length.toLocaleString()} records have a positive value in **${daysColumn}** (mock mode).`
+        : "No overdue-days column was found in this file (mock mode).",
+      calculations: {
+        ...buildCalculations(session),
+        registrosVencidos: overdue,
+      },
+    };
+  }
+
+  if (/distribu|calificaci|rating|por |by /.test(q)) {
+    const category = findCategoryColumn(session, /calificaci|rating|estado/i);
+    if (category) {
+      const chartData: ChartData = {
+        type: "pie",
+        title: `Distribution by ${category}`,
+        ...groupBy(session, category),
+      };
+      return {
+        type: "analysis",
+        aiResponse: `Here is the distribution of records by **${category}** (mock mode).`,
+        chartData,
+      };
+    }
+  }
+
+  if (/agencia|agency|mejor|best|top|desempe/.test(q)) {
+    const category = findCategoryColumn(session, /agencia|agency|sucursal/i);
+    const balance = findColumn(session, /saldo|balance/i);
+    const amount = findColumn(session, /monto|amount/i);
+    const measure = balance || amount;
+    if (category) {
+      const grouped = groupBy(session, category, measure);
+      // Con saldo y monto se compara ambos: barras para el saldo, línea para el monto
+      const chartData: ChartData =
+        balance && amount
+          ? {
+              type: "combo",
+              title: `${balance} vs ${amount} by ${category}`,
+              labels: grouped.labels,
+              series: [
+                { name: balance, data: grouped.data, type: "bar" },
+                {
+                  name: amount,
+                  data: sumByLabel(session, category, amount, grouped.labels),
+                  type: "line",
+                  yAxis: "right",
+                },
+              ],
+            }
+          : {
+              type: "bar",
+              title: measure
+                ? `${measure} by ${category}`
+                : `Records by ${category}`,
+              ...grouped,
+            };
+      return {
+        type: "analysis",
+        aiResponse: `**${grouped.labels[0]}** leads the ranking by ${
+          measure ?? "record count"
+        } (mock mode).`,
+        chartData,
+      };
+    }
+  }
+
+  const calculations = buildCalculations(session);
+  return {
+    type: "analysis",
+    aiResponse: `Summary of **${
+      session.fileName
+    }**: ${session.rows.length.toLocaleString()} records across ${
+      session.columns.length
+    } columns (mock mode).`,
+    calculations,
+  };
+};
+
+// Cruza los datasets según los joins declarados (inner join); las columnas
+// repetidas del lado derecho llevan el nombre de su archivo como prefijo
+const joinDatasets = (
+  datasets: Map<string, MockDataset>,
+  joins: DatasetJoin[]
+): MockDataset | undefined => {
+  const first = datasets.get(joins[0].left.datasetId);
+  if (!first) return undefined;
+  let joined: MockDataset = { ...first };
+  const included = new Set([joins[0].left.datasetId]);
+
+  for (const join of joins) {
+    const [own, other] = included.has(join.left.datasetId)
+      ? [join.left, join.right]
+      : [join.right, join.left];
+    const right = datasets.get(other.datasetId);
+    if (!right || included.has(other.datasetId)) continue;
+    const rename = (col: string) =>
+      joined.columns.includes(col) ? `${right.fileName}.${col}` : col;
+    const index = new Map<unknown, Row[]>();
+    for (const row of right.rows) {
+      const key = row[other.column];
+      index.set(key, [...(index.get(key) ?? []), row]);
+    }
+    joined = {
+      fileName: `${joined.fileName} + ${right.fileName}`,
+      columns: [...joined.columns, ...right.columns.map(rename)],
+      rows: joined.rows.flatMap((row) =>
+        (index.get(row[own.column]) ?? []).map((match) => ({
+          ...row,
+          ...Object.fromEntries(
+            Object.entries(match).map(([col, value]) => [rename(col), value])
+          ),
+        }))
+      ),
+    };
+    included.add(other.datasetId);
+  }
+  return joined;
+};
+
+// Simula el envío de `size` bytes en cuatro pasos
+const simulateUpload = async (
+  size: number,
+  { signal, onProgress }: UploadOptions
+) => {
+  for (let step = 1; step <= 4; step++) {
+    await sleep(LATENCY_MS / 4, signal);
+    onProgress?.((size * step) / 4, size);
+  }
+};
+
+// Emula /api/upload, /api/chat y /api/generate-report-word sin backend
+export const createMockClient = (): ApiClient => {
+  const sessions = new Map<string, MockSession>();
+  // Subidas por partes en curso: partes recibidas por índice
+  const chunkedUploads = new Map<
+    string,
+    { fileName: string; chunks: Map<number, Blob> }
+  >();
+
+  const getSession = (sessionId?: string) => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || new Date(session.expiresAt).getTime() < Date.now()) {
+      throw new SessionExpiredError();
+    }
+    return session;
+  };
+
+  // Dataset al que apunta la pregunta: uno elegido, el cruce de los joins o
+  // el archivo principal
+  const resolveDataset = (
+    session: MockSession,
+    datasetId?: string,
+    joins?: DatasetJoin[]
+  ): MockDataset => {
+    if (datasetId) {
+      const dataset = session.datasets.get(datasetId);
+      if (!dataset) throw new ValidationError("Unknown dataset", 404);
+      return dataset;
+    }
+    return (joins?.length && joinDatasets(session.datasets, joins)) || session;
+  };
+
+  // Sin `sessionId` abre una sesión; con él agrega el archivo como dataset
+  const openSession = async (
+    file: File,
+    { sheet, question, sessionId: targetId }: UploadFields
+  ): Promise<ApiResponse> => {
+    const workbook = await parseSpreadsheet(file);
+    const { columns, rows } =
+      workbook.sheets.find((candidate) => candidate.name === sheet) ??
+      workbook.sheets[0];
+    const dataset: MockDataset = { fileName: file.name, columns, rows };
+    const datasetId = `dataset-${crypto.randomUUID()}`;
+    const sessionId = targetId ?? `mock-${crypto.randomUUID()}`;
+    const session: MockSession = targetId
+      ? getSession(targetId)
+      : {
+          ...dataset,
+          expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+          datasets: new Map(),
+        };
+    session.datasets.set(datasetId, dataset);
+    sessions.set(sessionId, session);
+
+    const result: ApiResponse = {
+      sessionId,
+      datasetId,
+      totalRows: rows.length,
+      columns,
+      sampleData: rows.slice(0, SAMPLE_SIZE),
+      expiresAt: session.expiresAt,
+      validFor: "2 days",
+    };
+    if (question?.trim()) {
+      result.initialQuestion = question;
+      result.initialResponse = answerQuestion(dataset, question);
+    }
+    return result;
+  };
+
+  return {
+    upload: async (formData, options = {}) => {
+      const file = formData.get("file");
+      if (!(file instanceof File)) {
+        throw new ValidationError("No file provided");
+      }
+      await simulateUpload(file.size, options);
+      await sleep(LATENCY_MS, options.signal);
+      const field = (name: string) => {
+        const value = formData.get(name);
+        return typeof value === "string" ? value : undefined;
+      };
+      return openSession(file, {
+        sheet: field("sheet"),
+        question: field("question"),
+        sessionId: field("sessionId"),
+      });
+    },
+
+    startChunkedUpload: async ({ fileName, uploadId }, signal) => {
+      await sleep(LATENCY_MS / 2, signal);
+      const existing = uploadId ? chunkedUploads.get(uploadId) : undefined;
+      if (uploadId && existing) {
+        return { uploadId, received: [...existing.chunks.keys()] };
+      }
+      const id = `upload-${crypto.randomUUID()}`;
+      chunkedUploads.set(id, { fileName, chunks: new Map() });
+      return { uploadId: id, received: [] };
+    },
+
+    uploadChunk: async (uploadId, index, chunk, options = {}) => {
+      const upload = chunkedUploads.get(uploadId);
+      if (!upload) throw new ValidationError("Unknown upload", 404);
+      await simulateUpload(chunk.size, options);
+      upload.chunks.set(index, chunk);
+    },
+
+    completeChunkedUpload: async (uploadId, fields, signal) => {
+      const upload = chunkedUploads.get(uploadId);
+      if (!upload) throw new ValidationError("Unknown upload", 404);
+      await sleep(LATENCY_MS, signal);
+      const parts = [...upload.chunks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, chunk]) => chunk);
+      chunkedUploads.delete(uploadId);
+      return openSession(new File(parts, upload.fileName), fields);
+    },
+
+    chat: async ({ question, sessionId, datasetId, joins }, signal) => {
+      await sleep(LATENCY_MS, signal);
+      const dataset = resolveDataset(getSession(sessionId), datasetId, joins);
+      return { question, response: answerQuestion(dataset, question) };
+    },
+
+    // Emite la respuesta palabra por palabra como haría el backend con SSE
+    chatStream: async (
+      { question, sessionId, datasetId, joins },
+      handlers,
+      signal
+    ) => {
+      await sleep(LATENCY_MS, signal);
+      const answer = answerQuestion(
+        resolveDataset(getSession(sessionId), datasetId, joins),
+        question
+      );
+      for (const token of answer.aiResponse.match(/\S+\s*/g) ?? []) {
+        await sleep(TOKEN_DELAY_MS, signal);
+        handlers.onToken(token);
+      }
+      if (answer.calculations) handlers.onCalculations?.(answer.calculations);
+      if (answer.chartData) handlers.onChartData?.(answer.chartData);
+      return answer;
+    },
+
+    generateReportWord: async ({ sessionId, outline }, options = {}) => {
+      await sleep(LATENCY_MS, options.signal);
+      const session = getSession(sessionId);
+      const calculations = buildCalculations(session);
+      const body = outline
+        ? outline.flatMap((section) => {
+            switch (section.type) {
+              case "heading":
+                return ["", `## ${section.text}`];
+              case "note":
+                return [section.text ?? ""];
+              case "chart":
+                return [`[Chart] ${section.chartData?.title}`];
+              default:
+                return [
+                  ...(section.question ? [`Q: ${section.question}`] : []),
+                  section.text ?? "",
+                ];
+            }
+          })
+        : Object.entries(calculations).map(
+            ([key, value]) => `${key}: ${value}`
+          );
+      const lines = [
+        "Strategic Report (mock mode)",
+        "",
+        `File: ${session.fileName}`,
+        `Records: ${session.rows.length}`,
+        `Columns: ${session.columns.join(", ")}`,
+        "",
+        ...body,
+      ];
+      const content = new TextEncoder().encode(lines.join("\n"));
+      // Simula la descarga por partes para mostrar el avance
+      for (let step = 1; step <= 4; step++) {
+        await sleep(LATENCY_MS / 2, options.signal);
+        options.onProgress?.((content.length * step) / 4, content.length);
+      }
+      return new Blob([content], { type: "text/plain" });
+    },
+  };
+};
@@ -0,0 +1,185 @@
+import { jsPDF } from "jspdf";
+import { defaultFormatter, type NumberFormatter } from "./format";
+import { defaultI18n, type I18n } from "./i18n";
+import type { SessionData } from "./types";
+
+// Los títulos y notas del tablero usan `answer` como texto y no llevan métricas
+export interface ReportSection {
+  kind?: "analysis" | "heading" | "note";
+  question?: string;
+  answer: string;
+  metrics: [string, string][];
+  chart?: { title: string; image: string };
+}
+
+export interface PdfReportOptions {
+  session: SessionData;
+  sections: ReportSection[];
+  title?: string;
+  generatedAt?: Date;
+  formatter?: NumberFormatter;
+  i18n?: I18n;
+}
+
+const MARGIN = 48;
+const LINE_HEIGHT = 1.4;
+
+// El PDF no interpreta markdown: se quitan las marcas y se conserva el texto
+export const stripMarkdown = (text: string) =>
+  text
+    .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*/g, ""))
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/^\s*[-*+]\s+/gm, "• ")
+    // Las fuentes estándar del PDF no incluyen emojis
+    .replace(/\p{Extended_Pictographic}\uFE0F?/gu, "")
+    .replace(/^[ \t]+/gm, "");
+
+// Arma el PDF con portada, una sección por respuesta y numeración de páginas
+export const buildPdfReport = ({
+  session,
+  sections,
+  title,
+  generatedAt = new Date(),
+  formatter = defaultFormatter,
+  i18n: { t } = defaultI18n,
+}: PdfReportOptions): Blob => {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const writeText = (
+    text: string,
+    { size = 11, bold = false, color = "#1f2937" } = {}
+  ) => {
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lineHeight = size * LINE_HEIGHT;
+    for (const line of doc.splitTextToSize(text, contentWidth) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN, y + size);
+      y += lineHeight;
+    }
+  };
+
+  // Portada
+  doc.setFillColor("#7c3aed");
+  doc.rect(0, 0, pageWidth, 8, "F");
+  y = pageHeight / 3;
+  writeText(title ?? t("pdf.title"), { size: 28, bold: true });
+  y += 12;
+  writeText(session.fileName ?? session.sessionId, {
+    size: 16,
+    color: "#4b5563",
+  });
+  y += 24;
+  writeText(
+    t("export.records", { count: formatter.count(session.totalRows) }),
+    {
+      size: 12,
+    }
+  );
+  writeText(t("export.columns", { count: session.columns.length }), {
+    size: 12,
+  });
+  writeText(t("pdf.generated", { date: generatedAt.toLocaleString() }), {
+    size: 12,
+  });
+  const analysisCount = sections.filter(
+    (section) => (section.kind ?? "analysis") === "analysis"
+  ).length;
+  writeText(t("pdf.sections", { count: analysisCount }), { size: 12 });
+
+  let number = 0;
+  let previous: ReportSection["kind"] | "cover" = "cover";
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  sections.forEach((section) => {
+    const kind = section.kind ?? "analysis";
+    const follows = previous;
+    previous = kind;
+
+    if (kind === "heading") {
+      newPage();
+      writeText(section.answer, { size: 20, bold: true, color: "#7c3aed" });
+      y += 12;
+      return;
+    }
+    if (kind === "note") {
+      if (follows === "cover") newPage();
+      else y += 12;
+      writeText(stripMarkdown(section.answer), { color: "#4b5563" });
+      y += 12;
+      return;
+    }
+
+    // Cada respuesta abre página salvo que siga a un título o a una nota
+    if (follows === "cover" || follows === "analysis") newPage();
+    number += 1;
+
+    writeText(`${number}. ${section.question ?? t("report.analysis")}`, {
+      size: 16,
+      bold: true,
+    });
+    y += 8;
+    writeText(stripMarkdown(section.answer));
+
+    if (section.metrics.length > 0) {
+      y += 12;
+      writeText(t("pdf.keyMetrics"), { size: 12, bold: true });
+      for (const [label, value] of section.metrics) {
+        writeText(`${label}: ${value}`, { size: 10, color: "#374151" });
+      }
+    }
+
+    if (section.chart) {
+      const { width, height } = doc.getImageProperties(section.chart.image);
+      const imageWidth = Math.min(contentWidth, width);
+      const imageHeight = (height / width) * imageWidth;
+      y += 12;
+      ensureSpace(imageHeight);
+      doc.addImage(
+        section.chart.image,
+        "PNG",
+        MARGIN,
+        y,
+        imageWidth,
+        imageHeight
+      );
+      y += imageHeight;
+    }
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.setTextColor("#9ca3af");
+    doc.text(
+      t("pdf.page", { page: page - 1, total: pageCount - 1 }),
+      pageWidth / 2,
+      pageHeight - 24,
+      {
+        align: "center",
+      }
+    );
+  }
+
+  return doc.output("blob");
+};
@@ -0,0 +1,206 @@
+import { isRecord, parseExportEnvelope } from "./exportFormat";
+import type { Translate } from "./i18n";
+import type { ColumnSchema, ColumnType } from "./schema";
+
+export interface SavedPrompt {
+  id: string;
+  text: string;
+  category: string;
+  createdAt: string;
+}
+
+export interface PromptLibraryExport {
+  format: typeof FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  prompts: SavedPrompt[];
+}
+
+export interface PromptSuggestion {
+  text: string;
+  icon: string;
+}
+
+const FORMAT_ID = "excel-ai-prompts";
+const FORMAT_VERSION = 1;
+const LIBRARY_KEY = "excel-ai:prompts";
+
+export const loadPrompts = (): SavedPrompt[] => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_KEY);
+    return raw ? (JSON.parse(raw) as SavedPrompt[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePrompts = (prompts: SavedPrompt[]) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(prompts));
+  } catch (err) {
+    console.error("Could not persist prompt library:", err);
+  }
+};
+
+export const createPrompt = (text: string, category: string): SavedPrompt => ({
+  id: crypto.randomUUID(),
+  text: text.trim(),
+  category: category.trim(),
+  createdAt: new Date().toISOString(),
+});
+
+export const promptCategories = (prompts: SavedPrompt[]) =>
+  [...new Set(prompts.map((p) => p.category))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+// Marcadores {nombre} sin repetir, en orden de aparición
+export const templatePlaceholders = (text: string) => [
+  ...new Set([...text.matchAll(/\{([^{}]+)\}/g)].map((m) => m[1].trim())),
+];
+
+// Marcadores genéricos que se resuelven con la primera columna de ese tipo
+const TYPE_PLACEHOLDERS: Record<string, ColumnType[]> = {
+  number: ["number", "currency", "percent"],
+  amount: ["currency", "number"],
+  currency: ["currency"],
+  percent: ["percent"],
+  date: ["date"],
+  category: ["category"],
+  text: ["text", "category"],
+};
+
+// Columna sugerida para cada marcador: mismo nombre (sin distinguir
+// mayúsculas) o, si es un tipo como {category}, la primera columna de ese tipo
+export const resolvePlaceholders = (
+  text: string,
+  schema: ColumnSchema[]
+): Record<string, string | undefined> =>
+  Object.fromEntries(
+    templatePlaceholders(text).map((name) => {
+      const lower = name.toLowerCase();
+      const exact = schema.find((col) => col.name.toLowerCase() === lower);
+      const types = TYPE_PLACEHOLDERS[lower];
+      const byType = types
+        ? types
+            .map((type) => schema.find((col) => col.type === type))
+            .find(Boolean)
+        : undefined;
+      return [name, (exact ?? byType)?.name];
+    })
+  );
+
+export const fillTemplate = (
+  text: string,
+  values: Record<string, string | undefined>
+) =>
+  text.replace(/\{([^{}]+)\}/g, (match, name: string) => {
+    const value = values[name.trim()];
+    return value ?? match;
+  });
+
+// Preguntas útiles según los tipos de columna detectados
+export const suggestPrompts = (
+  schema: ColumnSchema[],
+  t: Translate
+): PromptSuggestion[] => {
+  const first = (...types: ColumnType[]) =>
+    types.map((type) => schema.find((col) => col.type === type)).find(Boolean)
+      ?.name;
+  const measure = first("currency", "number");
+  const category = first("category");
+  const date = first("date");
+  const percent = first("percent");
+  const suggestions: PromptSuggestion[] = [];
+
+  if (measure) {
+    suggestions.push({
+      text: t("suggest.total", { column: measure }),
+      icon: "💰",
+    });
+  }
+  if (measure && category) {
+    suggestions.push({
+      text: t("suggest.byCategory", { measure, category }),
+      icon: "🏆",
+    });
+  }
+  if (category) {
+    suggestions.push({
+      text: t("suggest.distribution", { column: category }),
+      icon: "📊",
+    });
+  }
+  if (measure && date) {
+    suggestions.push({
+      text: t("suggest.trend", { measure, date }),
+      icon: "📈",
+    });
+  }
+  if (percent) {
+    suggestions.push({
+      text: t("suggest.average", { column: percent }),
+      icon: "📐",
+    });
+  }
+  if (measure) {
+    suggestions.push({
+      text: t("suggest.outliers", { column: measure }),
+      icon: "⚠️",
+    });
+  }
+  return suggestions;
+};
+
+export const exportPrompts = (prompts: SavedPrompt[]): string =>
+  JSON.stringify(
+    {
+      format: FORMAT_ID,
+      version: FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      prompts,
+    } satisfies PromptLibraryExport,
+    null,
+    2
+  );
+
+const isPrompt = (value: unknown): value is SavedPrompt =>
+  isRecord(value) &&
+  typeof value.text === "string" &&
+  typeof value.category === "string";
+
+export const parsePromptExport = (
+  text: string,
+  t: Translate
+): SavedPrompt[] => {
+  const data = parseExportEnvelope(
+    text,
+    { format: FORMAT_ID, version: FORMAT_VERSION },
+    "import.notPromptLibrary",
+    t
+  );
+  if (!Array.isArray(data.prompts)) {
+    throw new Error(t("import.damaged"));
+  }
+  return data.prompts
+    .filter(isPrompt)
+    .map((prompt) => createPrompt(prompt.text, prompt.category));
+};
+
+// Agrega los importados que no estén ya (mismo texto y categoría)
+export const mergePrompts = (
+  current: SavedPrompt[],
+  imported: SavedPrompt[]
+): SavedPrompt[] => {
+  const key = (p: SavedPrompt) =>
+    `${p.category.toLowerCase()}\u0000${p.text.toLowerCase()}`;
+  const seen = new Set(current.map(key));
+  return [
+    ...current,
+    ...imported.filter((prompt) => {
+      if (seen.has(key(prompt))) return false;
+      seen.add(key(prompt));
+      return true;
+    }),
+  ];
+};
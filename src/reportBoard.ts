@@ -0,0 +1,144 @@
+import type { AnalysisResponse, ChartData, Message } from "./types";
+
+// Elementos del tablero: respuestas o gráficas fijadas desde el chat y
+// títulos/notas escritos por el analista
+export type BoardItem =
+  | {
+      id: string;
+      kind: "answer";
+      messageId?: string;
+      messageIndex: number;
+      question?: string;
+      content: string;
+      calculations?: AnalysisResponse["calculations"];
+      chartData?: ChartData;
+    }
+  | {
+      id: string;
+      kind: "chart";
+      messageId?: string;
+      messageIndex: number;
+      chartData: ChartData;
+    }
+  | { id: string; kind: "heading"; text: string }
+  | { id: string; kind: "note"; text: string };
+
+export type PinKind = "answer" | "chart";
+
+// Sección del esquema que se envía a /api/generate-report-word
+export interface ReportOutlineSection {
+  type: "heading" | "note" | "answer" | "chart";
+  text?: string;
+  question?: string;
+  calculations?: AnalysisResponse["calculations"];
+  chartData?: ChartData;
+}
+
+const createId = () => crypto.randomUUID();
+
+export const createPinnedItem = (
+  messages: Message[],
+  index: number,
+  kind: PinKind
+): BoardItem => {
+  const message = messages[index];
+  const previous = messages[index - 1];
+  if (kind === "chart" && message.chartData) {
+    return {
+      id: createId(),
+      kind: "chart",
+      messageId: message.id,
+      messageIndex: index,
+      chartData: message.chartData,
+    };
+  }
+  return {
+    id: createId(),
+    kind: "answer",
+    messageId: message.id,
+    messageIndex: index,
+    question: previous?.type === "user" ? previous.content : undefined,
+    content: message.content,
+    calculations: message.calculations,
+    chartData: message.chartData,
+  };
+};
+
+export const createTextItem = (kind: "heading" | "note"): BoardItem => ({
+  id: createId(),
+  kind,
+  text: "",
+});
+
+const isPinOf = (
+  item: BoardItem,
+  message: Message,
+  index: number,
+  kind: PinKind
+) =>
+  item.kind === kind &&
+  (message.id ? item.messageId === message.id : item.messageIndex === index);
+
+export const isPinned = (
+  board: BoardItem[],
+  message: Message,
+  index: number,
+  kind: PinKind
+) => board.some((item) => isPinOf(item, message, index, kind));
+
+// Fija el mensaje al final del tablero o lo quita si ya estaba fijado
+export const togglePin = (
+  board: BoardItem[],
+  messages: Message[],
+  index: number,
+  kind: PinKind
+): BoardItem[] =>
+  isPinned(board, messages[index], index, kind)
+    ? board.filter((item) => !isPinOf(item, messages[index], index, kind))
+    : [...board, createPinnedItem(messages, index, kind)];
+
+// Quita lo fijado desde el chat y conserva los títulos y notas propios
+export const withoutPins = (board: BoardItem[]) =>
+  board.filter((item) => item.kind === "heading" || item.kind === "note");
+
+export const moveItem = (board: BoardItem[], from: number, to: number) => {
+  if (to < 0 || to >= board.length) return board;
+  const next = [...board];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Índice actual del mensaje fijado (los mensajes con id sobreviven a reordenar)
+export const resolveMessageIndex = (
+  item: Extract<BoardItem, { messageIndex: number }>,
+  messages: Message[]
+) => {
+  if (!item.messageId) return item.messageIndex;
+  const index = messages.findIndex((m) => m.id === item.messageId);
+  return index === -1 ? item.messageIndex : index;
+};
+
+export const toReportOutline = (board: BoardItem[]): ReportOutlineSection[] =>
+  board
+    .filter(
+      (item) =>
+        (item.kind !== "heading" && item.kind !== "note") || item.text.trim()
+    )
+    .map((item) => {
+      switch (item.kind) {
+        case "heading":
+        case "note":
+          return { type: item.kind, text: item.text.trim() };
+        case "chart":
+          return { type: "chart", chartData: item.chartData };
+        default:
+          return {
+            type: "answer",
+            question: item.question,
+            text: item.content,
+            calculations: item.calculations,
+            chartData: item.chartData,
+          };
+      }
+    });
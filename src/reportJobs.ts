@@ -0,0 +1,57 @@
+import type { Translate } from "./i18n";
+
+// Informe en curso: el mensaje del chat que lo representa y cómo cancelarlo
+export interface ReportJob {
+  messageId: string;
+  controller: AbortController;
+  attempt: number;
+  maxAttempts: number;
+  status: "generating" | "downloading" | "retrying";
+  // Fracción descargada (0-1); null si el servidor no informa el tamaño
+  progress: number | null;
+}
+
+export type ReportFormat = "docx" | "pdf" | "txt";
+
+// El informe del backend es un .docx; el modo mock devuelve texto plano y
+// guardarlo como .docx daría un archivo que Word no abre
+export const reportFormatOf = (blob: Blob): ReportFormat =>
+  blob.type.startsWith("text/plain") ? "txt" : "docx";
+
+// Informe ya generado en esta sesión, disponible para volver a descargar
+export interface GeneratedReport {
+  id: string;
+  fileName: string;
+  format: ReportFormat;
+  createdAt: string;
+  blob: Blob;
+}
+
+export const REPORT_RETRIES = 2;
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const describeReportJob = (job: ReportJob, t: Translate) => {
+  const attempt =
+    job.attempt > 1
+      ? t("report.attempt", { attempt: job.attempt, total: job.maxAttempts })
+      : "";
+  switch (job.status) {
+    case "retrying":
+      return t("report.status.retrying", { attempt });
+    case "downloading":
+      return job.progress === null
+        ? t("report.status.downloading", { attempt })
+        : t("report.status.downloadingProgress", {
+            percent: Math.round(job.progress * 100),
+            attempt,
+          });
+    default:
+      return t("report.status.generating", { attempt });
+  }
+};
@@ -0,0 +1,61 @@
+import { isAbortError, isTransientError, RateLimitedError } from "./apiErrors";
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (err: unknown) => boolean;
+  // Se llama antes de esperar; `attempt` es el intento que viene
+  onRetry?: (attempt: number, delayMs: number, err: unknown) => void;
+}
+
+// Espera que se corta si se aborta la señal
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => reject(new DOMException("Aborted", "AbortError"));
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        abort();
+      },
+      { once: true }
+    );
+  });
+
+// Ejecuta la tarea y la repite con backoff exponencial ante fallas transitorias
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  {
+    retries = 2,
+    baseDelayMs = 1000,
+    signal,
+    shouldRetry = isTransientError,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (
+        attempt > retries ||
+        signal?.aborted ||
+        isAbortError(err) ||
+        !shouldRetry(err)
+      ) {
+        throw err;
+      }
+      // Jitter de ±20% para no reintentar todos a la vez; un 429 con
+      // Retry-After marca la espera mínima
+      const delayMs = Math.max(
+        baseDelayMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4),
+        err instanceof RateLimitedError ? err.retryAfterMs ?? 0 : 0
+      );
+      onRetry?.(attempt + 1, delayMs, err);
+      await sleep(delayMs, signal);
+    }
+  }
+};
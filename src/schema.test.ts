@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { inferColumnSchema, parseDate, parseNumeric } from "./schema";
+
+describe("parseNumeric", () => {
+  it.each([
+    ["1.234,56", 1234.56],
+    ["1,234.56", 1234.56],
+    ["1,234", 1234],
+    ["$ 1,200", 1200],
+    ["Bs. 350,5", 350.5],
+    ["12%", 12],
+    ["-15", -15],
+    ["-$1,200", -1200],
+    ["(500)", -500],
+    [42, 42],
+  ])("reads %j as %d", (value, expected) => {
+    expect(parseNumeric(value)).toBe(expected);
+  });
+
+  it.each([
+    "2024-01-15",
+    "LN-00123",
+    "15/01/2024",
+    "abc",
+    "12 cuotas",
+    "(500",
+    "",
+  ])("rejects %j", (value) => {
+    expect(parseNumeric(value)).toBeNull();
+  });
+});
+
+describe("parseDate", () => {
+  it.each([
+    ["2024-01-15", Date.UTC(2024, 0, 15)],
+    ["2024-01-15T10:30:00Z", Date.UTC(2024, 0, 15, 10, 30)],
+    ["15/01/2024", Date.UTC(2024, 0, 15)],
+    ["05-03-24", Date.UTC(2024, 2, 5)],
+    ["01/15/2024", Date.UTC(2024, 0, 15)],
+  ])("reads %j", (value, expected) => {
+    expect(parseDate(value)).toBe(expected);
+  });
+
+  it.each(["31/02/2024", "2024", "1.200", "Vigente", ""])(
+    "rejects %j",
+    (value) => {
+      expect(parseDate(value)).toBeNull();
+    }
+  );
+});
+
+describe("inferColumnSchema", () => {
+  it("handles columns too large to spread into Math.min", () => {
+    const values = Array.from({ length: 200_000 }, (_, i) => i - 100);
+    const schema = inferColumnSchema("monto", values);
+    expect(schema.min).toBe(-100);
+    expect(schema.max).toBe(199_899);
+  });
+
+  it("keeps ISO dates as dates", () => {
+    const schema = inferColumnSchema("fecha", ["2024-01-15", "2023-12-31"]);
+    expect(schema).toMatchObject({
+      type: "date",
+      min: "2023-12-31",
+      max: "2024-01-15",
+    });
+  });
+});
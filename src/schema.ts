@@ -0,0 +1,178 @@
+export type ColumnType =
+  | "number"
+  | "currency"
+  | "percent"
+  | "date"
+  | "category"
+  | "text"
+  | "empty";
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string;
+  max?: number | string;
+}
+
+const CURRENCY_PATTERN =
+  /^\(?-?\s*(\$|US\$|Bs\.?|€|USD|BOB|EUR)\s*-?[\d.,]+\)?$|^-?[\d.,]+\s*(\$|Bs\.?|€|USD|BOB|EUR)$/i;
+const PERCENT_PATTERN = /^-?[\d.,]+\s*%$/;
+const NUMBER_PATTERN = /^-?[\d.,]+$/;
+const DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}([T ][\d:.]+Z?)?$|^\d{1,2}[/-]\d{1,2}[/-]\d{2,4}$/;
+const DAY_MONTH_YEAR_PATTERN = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/;
+
+// Nombres de columna que, con valores numéricos, indican montos o tasas
+export const CURRENCY_NAME_HINT =
+  /monto|saldo|importe|amount|balance|usd|bob|capital/i;
+export const PERCENT_NAME_HINT = /tasa|rate|porcentaje|percent|%/i;
+
+const MAX_CATEGORIES = 20;
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === "string" && value.trim() === "");
+
+// Número con separadores y, opcionalmente, moneda o "%"; el signo va solo al
+// inicio o como paréntesis. Fechas ("2024-01-15") y códigos ("LN-00123") no
+const NUMERIC_TEXT_PATTERN =
+  /^(\()?\s*(-)?\s*(?:\$|US\$|Bs\.?|€|USD|BOB|EUR)?\s*(-)?\s*(\d[\d.,]*|[.,]\d[\d.,]*)\s*(?:%|\$|Bs\.?|€|USD|BOB|EUR)?\s*(\))?$/i;
+
+// Interpreta "1.234,56", "1,234.56", "$ 1,200", "(500)" o "12%" como número
+export const parseNumeric = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = NUMERIC_TEXT_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, open, sign, innerSign, number, close] = match;
+  if (!!open !== !!close) return null;
+  const negative = !!open || !!sign || !!innerSign;
+  let digits = number;
+
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    // Coma decimal salvo que sea un separador de miles ("1,234")
+    digits =
+      /,\d{3}$/.test(digits) && lastDot === -1
+        ? digits.replace(/,/g, "")
+        : digits.replace(/\./g, "").replace(",", ".");
+  } else {
+    digits = digits.replace(/,/g, "");
+  }
+
+  const parsed = Number(digits);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -Math.abs(parsed) : parsed;
+};
+
+const isDateValue = (value: unknown) =>
+  value instanceof Date ||
+  (typeof value === "string" && DATE_PATTERN.test(value.trim()));
+
+// Fecha ISO o "15/01/2024" como milisegundos, para ordenar y comparar. Se
+// asume día/mes salvo que el segundo número no pueda ser un mes
+export const parseDate = (value: unknown): number | null => {
+  if (typeof value !== "string" || !isDateValue(value)) return null;
+  const text = value.trim();
+  const local = DAY_MONTH_YEAR_PATTERN.exec(text);
+  if (!local) {
+    const time = Date.parse(text);
+    return Number.isNaN(time) ? null : time;
+  }
+  const [first, second, year] = local.slice(1).map(Number);
+  const [day, month] = second > 12 ? [second, first] : [first, second];
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  // Descarta "31/02/2024" y similares, que Date correría al mes siguiente
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date.getTime()
+    : null;
+};
+
+const toDateKey = (value: unknown) =>
+  value instanceof Date
+    ? value.toISOString().split("T")[0]
+    : String(value).trim();
+
+const detectType = (name: string, present: unknown[]): ColumnType => {
+  if (present.length === 0) return "empty";
+
+  const strings = present.filter((v): v is string => typeof v === "string");
+  const allNumeric = present.every(
+    (v) =>
+      typeof v === "number" ||
+      (typeof v === "string" && NUMBER_PATTERN.test(v.trim()))
+  );
+
+  if (
+    strings.length > 0 &&
+    strings.every((v) => CURRENCY_PATTERN.test(v.trim()))
+  ) {
+    return "currency";
+  }
+  if (
+    strings.length > 0 &&
+    strings.every((v) => PERCENT_PATTERN.test(v.trim()))
+  ) {
+    return "percent";
+  }
+  if (allNumeric) {
+    if (PERCENT_NAME_HINT.test(name)) return "percent";
+    if (CURRENCY_NAME_HINT.test(name)) return "currency";
+    return "number";
+  }
+  if (present.every(isDateValue)) return "date";
+
+  const distinct = new Set(present.map((v) => String(v).trim())).size;
+  if (distinct <= MAX_CATEGORIES && distinct < present.length) {
+    return "category";
+  }
+  return "text";
+};
+
+// Infiere tipo y estadísticas de una columna a partir de todos sus valores
+export const inferColumnSchema = (
+  name: string,
+  values: unknown[]
+): ColumnSchema => {
+  const present = values.filter((v) => !isEmpty(v));
+  const type = detectType(name, present);
+  const schema: ColumnSchema = {
+    name,
+    type,
+    nullCount: values.length - present.length,
+    distinctCount: new Set(present.map((v) => String(v).trim())).size,
+  };
+
+  if (type === "number" || type === "currency" || type === "percent") {
+    const numbers = present
+      .map(parseNumeric)
+      .filter((n): n is number => n !== null);
+    if (numbers.length > 0) {
+      // reduce y no Math.min(...numbers): columnas grandes desbordan la pila
+      schema.min = numbers.reduce((a, b) => Math.min(a, b));
+      schema.max = numbers.reduce((a, b) => Math.max(a, b));
+    }
+  } else if (type === "date") {
+    const dates = present.map(toDateKey).sort();
+    schema.min = dates[0];
+    schema.max = dates[dates.length - 1];
+  }
+
+  return schema;
+};
+
+export const inferSchema = (
+  columns: string[],
+  rows: Record<string, unknown>[]
+): ColumnSchema[] =>
+  columns.map((col) =>
+    inferColumnSchema(
+      col,
+      rows.map((row) => row?.[col])
+    )
+  );
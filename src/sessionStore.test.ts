@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isSessionExpired, loadSessions, saveSession } from "./sessionStore";
+import type { Message, SessionData } from "./types";
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+const session = (sessionId: string): SessionData => ({
+  sessionId,
+  totalRows: 1,
+  columns: ["monto"],
+  sampleData: [{ monto: 1 }],
+  expiresAt: "2026-01-03T10:00:00.000Z",
+  validFor: "2 days",
+  fileName: `${sessionId}.csv`,
+});
+
+const message = (content: string): Message => ({
+  type: "user",
+  content,
+  timestamp: "2026-01-01T00:00:00.000Z",
+});
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", memoryStorage());
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T10:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("saveSession", () => {
+  it("keeps updatedAt when only session metadata changes", () => {
+    saveSession(session("a"), [message("hola")]);
+    vi.setSystemTime(new Date("2026-01-01T11:00:00Z"));
+    const renamed = { ...session("a"), fileName: "renombrado.csv" };
+    const [stored] = saveSession(renamed, [message("hola")]);
+
+    expect(stored.session.fileName).toBe("renombrado.csv");
+    expect(stored.updatedAt).toBe("2026-01-01T10:00:00.000Z");
+  });
+
+  it("bumps updatedAt and moves the session first on new messages", () => {
+    saveSession(session("a"), [message("hola")]);
+    vi.setSystemTime(new Date("2026-01-01T11:00:00Z"));
+    saveSession(session("b"), [message("otra")]);
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    saveSession(session("a"), [message("hola"), message("¿y la mora?")]);
+
+    expect(loadSessions().map((stored) => stored.session.sessionId)).toEqual([
+      "a",
+      "b",
+    ]);
+    expect(loadSessions()[0].updatedAt).toBe("2026-01-01T12:00:00.000Z");
+  });
+});
+
+describe("loadSessions", () => {
+  it("keeps expired sessions for a week so they can be replayed", () => {
+    saveSession(session("a"), [message("hola")]);
+    vi.setSystemTime(new Date("2026-01-05T10:00:00Z"));
+    const [stored] = loadSessions();
+
+    expect(stored.session.sessionId).toBe("a");
+    expect(isSessionExpired(stored)).toBe(true);
+
+    vi.setSystemTime(new Date("2026-01-10T10:00:00Z"));
+    expect(loadSessions()).toEqual([]);
+  });
+});
+
+describe("streaming answers", () => {
+  it("stores partial answers as finished and drops empty placeholders", () => {
+    saveSession(session("a"), [
+      message("hola"),
+      { type: "ai", content: "", timestamp: "", streaming: true },
+    ]);
+    saveSession(session("b"), [
+      message("otra"),
+      { type: "ai", content: "Hay 2 créditos", timestamp: "", streaming: true },
+    ]);
+    const [b, a] = loadSessions();
+
+    expect(a.messages).toEqual([message("hola")]);
+    expect(b.messages[1]).toMatchObject({
+      content: "Hay 2 créditos",
+      streaming: false,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import type { BoardItem } from "./reportBoard";
+import type { Message, SessionData } from "./types";
+
+export interface StoredSession {
+  session: SessionData;
+  messages: Message[];
+  board?: BoardItem[];
+  updatedAt: string;
+}
+
+const SESSIONS_KEY = "excel-ai:sessions";
+const ACTIVE_SESSION_KEY = "excel-ai:active-session";
+
+// Las sesiones vencidas se conservan una semana: tras recargar la página
+// todavía se puede volver a subir el archivo y repetir las preguntas
+const EXPIRED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const isSessionExpired = (stored: StoredSession, now = Date.now()) =>
+  new Date(stored.session.expiresAt).getTime() <= now;
+
+const isStale = (stored: StoredSession, now = Date.now()) =>
+  new Date(stored.session.expiresAt).getTime() + EXPIRED_RETENTION_MS <= now;
+
+// Una respuesta a medio transmitir no se retoma al recargar: se guarda lo
+// recibido como respuesta terminada y se descarta si todavía estaba vacía
+const settleMessages = (messages: Message[]) =>
+  messages.flatMap((message) =>
+    !message.streaming
+      ? [message]
+      : message.content
+      ? [{ ...message, streaming: false }]
+      : []
+  );
+
+const readAll = (): StoredSession[] => {
+  try {
+    const raw = localStorage.getItem(SESSIONS_KEY);
+    const sessions = raw ? (JSON.parse(raw) as StoredSession[]) : [];
+    return sessions.map((stored) => ({
+      ...stored,
+      messages: settleMessages(stored.messages),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const writeAll = (sessions: StoredSession[]) => {
+  try {
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  } catch (err) {
+    // Cuota excedida o almacenamiento deshabilitado: la app sigue funcionando sin persistir
+    console.error("Could not persist sessions:", err);
+  }
+};
+
+const byRecent = (a: StoredSession, b: StoredSession) =>
+  b.updatedAt.localeCompare(a.updatedAt);
+
+// Devuelve las sesiones guardadas (más recientes primero) y elimina las que
+// vencieron hace más de una semana
+export const loadSessions = (): StoredSession[] => {
+  const all = readAll();
+  const valid = all.filter((stored) => !isStale(stored));
+  if (valid.length !== all.length) writeAll(valid);
+  return valid.sort(byRecent);
+};
+
+// Mensajes y tablero son el contenido; elegir la sesión o renombrar sus
+// datasets no la mueve al principio de la lista
+const sameContent = (
+  stored: StoredSession,
+  messages: Message[],
+  board: BoardItem[]
+) =>
+  JSON.stringify(stored.messages) === JSON.stringify(messages) &&
+  JSON.stringify(stored.board ?? []) === JSON.stringify(board);
+
+export const saveSession = (
+  session: SessionData,
+  messages: Message[],
+  board: BoardItem[] = []
+): StoredSession[] => {
+  const settled = settleMessages(messages);
+  const all = loadSessions();
+  const previous = all.find(
+    (stored) => stored.session.sessionId === session.sessionId
+  );
+  const updatedAt =
+    previous && sameContent(previous, settled, board)
+      ? previous.updatedAt
+      : new Date().toISOString();
+  const sessions = [
+    { session, messages: settled, board, updatedAt },
+    ...all.filter((stored) => stored !== previous),
+  ].sort(byRecent);
+  writeAll(sessions);
+  return sessions;
+};
+
+export const removeSession = (sessionId: string): StoredSession[] => {
+  const sessions = loadSessions().filter(
+    (stored) => stored.session.sessionId !== sessionId
+  );
+  writeAll(sessions);
+  if (localStorage.getItem(ACTIVE_SESSION_KEY) === sessionId) {
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+  return sessions;
+};
+
+export const setActiveSessionId = (sessionId: string | null) => {
+  if (sessionId) {
+    localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+  } else {
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+};
+
+export const loadActiveSession = (): StoredSession | null => {
+  const activeId = localStorage.getItem(ACTIVE_SESSION_KEY);
+  if (!activeId) return null;
+  return (
+    loadSessions().find((stored) => stored.session.sessionId === activeId) ??
+    null
+  );
+};
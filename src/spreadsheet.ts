@@ -0,0 +1,94 @@
+import * as XLSX from "xlsx";
+import {
+  parseCsv,
+  uniqueHeaders,
+  type CellValue,
+  type ParsedTable,
+  type Row,
+} from "./csv";
+import { inferColumnSchema, type ColumnType } from "./schema";
+
+export interface SheetData extends ParsedTable {
+  name: string;
+  columnTypes: Record<string, ColumnType>;
+}
+
+export interface ParsedWorkbook {
+  fileName: string;
+  sheets: SheetData[];
+}
+
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value === "number") return value;
+  return String(value);
+};
+
+const withColumnTypes = (name: string, table: ParsedTable): SheetData => ({
+  name,
+  ...table,
+  columnTypes: Object.fromEntries(
+    table.columns.map((col) => [
+      col,
+      inferColumnSchema(
+        col,
+        table.rows.map((row) => row[col])
+      ).type,
+    ])
+  ),
+});
+
+const sheetToTable = (sheet: XLSX.WorkSheet): ParsedTable => {
+  const [header = [], ...body] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: null,
+    blankrows: false,
+  });
+  const columns = uniqueHeaders(
+    header.map((name) => (name === null ? "" : String(name)))
+  );
+  const rows = body.map((record) => {
+    const row: Row = {};
+    columns.forEach((col, index) => {
+      row[col] = toCellValue(record[index]);
+    });
+    return row;
+  });
+  return { columns, rows };
+};
+
+export const isCsvFile = (file: File) => /\.csv$/i.test(file.name);
+
+// Lee CSV o libros de Excel (todas las hojas) directamente en el navegador
+export const parseSpreadsheet = async (file: File): Promise<ParsedWorkbook> => {
+  if (isCsvFile(file)) {
+    return {
+      fileName: file.name,
+      sheets: [withColumnTypes(file.name, parseCsv(await file.text()))],
+    };
+  }
+
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+  return {
+    fileName: file.name,
+    sheets: workbook.SheetNames.map((name) =>
+      withColumnTypes(name, sheetToTable(workbook.Sheets[name]))
+    ),
+  };
+};
+
+// Filas de una hoja (la primera si no se indica); undefined si no se puede leer
+export const readSheetRows = async (
+  file: File,
+  sheet?: string
+): Promise<Row[] | undefined> => {
+  try {
+    const workbook = await parseSpreadsheet(file);
+    return (workbook.sheets.find((s) => s.name === sheet) ?? workbook.sheets[0])
+      ?.rows;
+  } catch (err) {
+    console.error("Could not read rows:", err);
+    return undefined;
+  }
+};
@@ -0,0 +1,96 @@
+// Métricas calculadas por el backend; las claves varían según la pregunta
+export type Calculations = Record<string, unknown>;
+
+export interface ApiResponse {
+  sessionId?: string;
+  // Dataset creado por la subida dentro de la sesión
+  datasetId?: string;
+  totalRows?: number;
+  columns?: string[];
+  sampleData?: any[];
+  expiresAt?: string;
+  validFor?: string;
+  initialQuestion?: string;
+  initialResponse?: {
+    type: string;
+    aiResponse: string;
+    calculations?: Calculations;
+    chartData?: ChartData;
+  };
+  question?: string;
+  response?: {
+    type: string;
+    aiResponse: string;
+    calculations?: Calculations;
+    chartData?: ChartData;
+  };
+  reportData?: string;
+  generatedAt?: string;
+}
+
+export type AnalysisResponse = NonNullable<ApiResponse["response"]>;
+
+export type ChartType = "bar" | "pie" | "line" | "area" | "scatter" | "combo";
+
+export interface ChartSeries {
+  name: string;
+  data: number[];
+  // Solo en "combo": cómo dibujar la serie y en qué eje
+  type?: "bar" | "line" | "area";
+  yAxis?: "left" | "right";
+  color?: string;
+}
+
+// `data` es el formato original de una sola serie; `series` permite comparar
+// varias. En "scatter" la primera serie es el eje X y la segunda el eje Y.
+export interface ChartData {
+  type: ChartType;
+  labels: string[];
+  data?: number[];
+  series?: ChartSeries[];
+  stacked?: boolean;
+  title: string;
+}
+
+export interface Message {
+  id?: string;
+  type: "user" | "ai";
+  content: string;
+  calculations?: Calculations;
+  chartData?: ChartData;
+  timestamp: string;
+  streaming?: boolean;
+  // Dataset elegido al preguntar; permite recalcular la respuesta sobre sus filas
+  datasetId?: string;
+}
+
+// Un archivo dentro de la sesión; el primero es también el de SessionData
+export interface Dataset {
+  id: string;
+  name: string;
+  fileName: string;
+  totalRows: number;
+  columns: string[];
+  sampleData: SessionData["sampleData"];
+  // Hoja elegida en libros con varias hojas; se reenvía al volver a subirlo
+  sheet?: string;
+}
+
+// Relación declarada entre dos datasets para preguntas que los cruzan
+export interface DatasetJoin {
+  left: { datasetId: string; column: string };
+  right: { datasetId: string; column: string };
+}
+
+export interface SessionData {
+  sessionId: string;
+  totalRows: number;
+  columns: string[];
+  sampleData: any[];
+  expiresAt: string;
+  validFor: string;
+  fileName?: string;
+  // Ausente en sesiones de un solo archivo (y en las guardadas antes)
+  datasets?: Dataset[];
+  joins?: DatasetJoin[];
+}
@@ -0,0 +1,231 @@
+import type { ApiClient, UploadFields } from "./api";
+import { ApiError } from "./apiErrors";
+import type { Row } from "./csv";
+import type { MessageKey, TranslateParams } from "./i18n";
+import { formatFileSize } from "./reportJobs";
+import { withRetry } from "./retry";
+import type { ApiResponse } from "./types";
+
+export const UPLOAD_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+// Por encima de este tamaño el archivo se sube por partes y se puede reanudar
+export const CHUNKED_UPLOAD_THRESHOLD = 10 * 1024 * 1024;
+export const CHUNK_SIZE = 2 * 1024 * 1024;
+
+const PENDING_UPLOADS_KEY = "excel-ai:uploads";
+// Mismo plazo que una sesión del backend: después ya no hay nada que reanudar
+const PENDING_UPLOAD_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  chunked: boolean;
+  // Parte del archivo ya estaba en el servidor de un intento anterior
+  resumed: boolean;
+}
+
+export interface UploadFileOptions extends UploadFields {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+// Archivo elegido para subir con su hoja y, si se pudieron leer en el
+// navegador, sus filas
+export interface SelectedFile {
+  file: File;
+  sheet?: string;
+  rows?: Row[];
+}
+
+// Archivo ya subido junto con la respuesta del backend
+export interface UploadedFile extends SelectedFile {
+  result: ApiResponse;
+}
+
+export interface UploadValidation {
+  error: MessageKey;
+  params?: TranslateParams;
+}
+
+// Chequeo previo a leer el archivo: extensión aceptada y tamaño razonable
+export const validateUploadFile = (file: File): UploadValidation | null => {
+  const name = file.name.toLowerCase();
+  if (!UPLOAD_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+    return {
+      error: "upload.invalidType",
+      params: { extensions: UPLOAD_EXTENSIONS.join(", ") },
+    };
+  }
+  if (file.size === 0) return { error: "upload.emptyFile" };
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return {
+      error: "upload.tooLarge",
+      params: {
+        size: formatFileSize(file.size),
+        max: formatFileSize(MAX_UPLOAD_BYTES),
+      },
+    };
+  }
+  return null;
+};
+
+// Identifica el mismo archivo entre intentos sin leer su contenido
+const fingerprintOf = (file: File) =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+// Subida por partes sin terminar, por huella del archivo
+interface PendingUpload {
+  uploadId: string;
+  savedAt: number;
+}
+
+// Descarta las subidas abandonadas hace más que el plazo y las guardadas
+// con el formato anterior (solo el id, sin fecha)
+const readPendingUploads = (): Record<string, PendingUpload> => {
+  try {
+    const raw = localStorage.getItem(PENDING_UPLOADS_KEY);
+    const stored = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        (entry): entry is [string, PendingUpload] => {
+          const upload = entry[1] as Partial<PendingUpload> | null;
+          return (
+            typeof upload?.uploadId === "string" &&
+            typeof upload.savedAt === "number" &&
+            now - upload.savedAt < PENDING_UPLOAD_TTL_MS
+          );
+        }
+      )
+    );
+  } catch {
+    return {};
+  }
+};
+
+const writePendingUploads = (uploads: Record<string, PendingUpload>) => {
+  try {
+    localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+  } catch (err) {
+    console.error("Could not persist pending uploads:", err);
+  }
+};
+
+const rememberUpload = (fingerprint: string, uploadId: string) =>
+  writePendingUploads({
+    ...readPendingUploads(),
+    [fingerprint]: { uploadId, savedAt: Date.now() },
+  });
+
+const forgetUpload = (fingerprint: string) => {
+  const uploads = readPendingUploads();
+  delete uploads[fingerprint];
+  writePendingUploads(uploads);
+};
+
+const toFormData = (
+  file: File,
+  { question, sheet, sessionId, language }: UploadFields
+) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (question?.trim()) formData.append("question", question.trim());
+  if (sheet) formData.append("sheet", sheet);
+  if (sessionId) formData.append("sessionId", sessionId);
+  if (language) formData.append("language", language);
+  return formData;
+};
+
+const uploadInChunks = async (
+  client: ApiClient,
+  file: File,
+  {
+    question,
+    sheet,
+    sessionId,
+    language,
+    signal,
+    onProgress,
+  }: UploadFileOptions
+): Promise<ApiResponse> => {
+  const fingerprint = fingerprintOf(file);
+  const request = {
+    fileName: file.name,
+    size: file.size,
+    chunkSize: CHUNK_SIZE,
+    fingerprint,
+  };
+  const previousId = readPendingUploads()[fingerprint]?.uploadId;
+
+  let upload;
+  try {
+    upload = await client.startChunkedUpload(
+      { ...request, uploadId: previousId },
+      signal
+    );
+  } catch (err) {
+    // El servidor ya descartó la subida anterior: empezar de cero
+    if (!previousId || !(err instanceof ApiError)) throw err;
+    if (err.kind !== "validation" && err.kind !== "session-expired") throw err;
+    forgetUpload(fingerprint);
+    upload = await client.startChunkedUpload(request, signal);
+  }
+  rememberUpload(fingerprint, upload.uploadId);
+
+  const chunkCount = Math.ceil(file.size / CHUNK_SIZE);
+  const received = new Set(upload.received);
+  const chunkAt = (index: number) =>
+    file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+  const resumed = received.size > 0;
+  let sent = [...received].reduce((acc, index) => acc + chunkAt(index).size, 0);
+  const report = (loaded: number) =>
+    onProgress?.({ loaded, total: file.size, chunked: true, resumed });
+
+  report(sent);
+  for (let index = 0; index < chunkCount; index++) {
+    if (received.has(index)) continue;
+    const chunk = chunkAt(index);
+    // Cada parte reemplaza a la anterior con el mismo índice: reintentar es seguro
+    await withRetry(
+      () =>
+        client.uploadChunk(upload.uploadId, index, chunk, {
+          signal,
+          onProgress: (loaded) => report(sent + loaded),
+        }),
+      { signal }
+    );
+    sent += chunk.size;
+    report(sent);
+  }
+
+  const result = await client.completeChunkedUpload(
+    upload.uploadId,
+    { question: question?.trim() || undefined, sheet, sessionId, language },
+    signal
+  );
+  forgetUpload(fingerprint);
+  return result;
+};
+
+// Sube el archivo en una sola petición o por partes según su tamaño; si se
+// cancela o falla a mitad, el siguiente intento con el mismo archivo reanuda
+export const uploadFile = (
+  client: ApiClient,
+  file: File,
+  options: UploadFileOptions = {}
+): Promise<ApiResponse> => {
+  if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+    return uploadInChunks(client, file, options);
+  }
+  const { signal, onProgress } = options;
+  return client.upload(toFormData(file, options), {
+    signal,
+    onProgress: (loaded, total) =>
+      onProgress?.({
+        loaded,
+        total: total || file.size,
+        chunked: false,
+        resumed: false,
+      }),
+  });
+};
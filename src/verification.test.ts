@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { Row } from "./csv";
+import type { Message } from "./types";
+import { verifyMessage } from "./verification";
+
+const rows: Row[] = [
+  { agencia: "Norte", monto: 1000, tasa: 10, diasMora: 0, plazo_dias: 30 },
+  { agencia: "Sur", monto: 2000, tasa: 12, diasMora: 15, plazo_dias: 60 },
+  { agencia: "Norte", monto: 3000, tasa: 14, diasMora: 0, plazo_dias: 90 },
+  { agencia: "Centro", monto: 500, tasa: 16, diasMora: 40, plazo_dias: 30 },
+];
+
+const answer = (fields: Partial<Message>): Message => ({
+  type: "ai",
+  content: "Resumen",
+  timestamp: "2026-01-01T10:00:00.000Z",
+  ...fields,
+});
+
+describe("verifyMessage", () => {
+  it("confirms the registered metrics", () => {
+    const verification = verifyMessage(
+      answer({
+        calculations: {
+          totalRegistros: 4,
+          montoTotalUSD: 6500,
+          promedioTasaInteres: 13,
+          registrosVencidos: 2,
+        },
+      }),
+      rows
+    );
+
+    expect(verification?.checks).toHaveLength(4);
+    expect(verification?.mismatches).toEqual([]);
+  });
+
+  it("reports values that differ beyond rounding", () => {
+    const verification = verifyMessage(
+      answer({ calculations: { montoTotalUSD: 6500.004, totalRegistros: 5 } }),
+      rows
+    );
+
+    expect(verification?.mismatches).toEqual([
+      {
+        label: "Total Credits",
+        metric: "totalRegistros",
+        reported: 5,
+        expected: 4,
+        matches: false,
+      },
+    ]);
+  });
+
+  it("infers unknown metrics from their name", () => {
+    const verification = verifyMessage(
+      answer({ calculations: { montoPromedio: 1625, maximoTasa: 16 } }),
+      rows
+    );
+
+    expect(verification?.checks.map((check) => check.expected)).toEqual([
+      1625, 16,
+    ]);
+    expect(verification?.mismatches).toEqual([]);
+  });
+
+  it("checks chart series against the grouped rows", () => {
+    const verification = verifyMessage(
+      answer({
+        chartData: {
+          type: "bar",
+          title: "Monto por agencia",
+          labels: ["Norte", "Sur"],
+          data: [4000, 2100],
+        },
+      }),
+      rows
+    );
+
+    expect(verification?.checks).toHaveLength(2);
+    expect(verification?.mismatches).toMatchObject([
+      { label: "Monto por agencia · Sur", reported: 2100, expected: 2000 },
+    ]);
+  });
+
+  it("returns null when no value can be reproduced", () => {
+    expect(
+      verifyMessage(answer({ calculations: { comentario: 3 } }), rows)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  aggregate,
+  findNumericColumn,
+  groupBy,
+  groupLabel,
+  isNumericColumn,
+  overdueFilter,
+  type Aggregation,
+} from "./aggregations";
+import type { Row } from "./csv";
+import {
+  humanizeKey,
+  METRIC_REGISTRY,
+  metricLabel,
+  type MetricSource,
+} from "./metrics";
+import type { ChartData, Message } from "./types";
+
+export interface ValueCheck {
+  // Métrica o "serie · etiqueta" de la gráfica
+  label: string;
+  // Clave de la métrica en calculations, para traducir su etiqueta
+  metric?: string;
+  reported: number;
+  expected: number | null;
+  matches: boolean;
+}
+
+export interface Verification {
+  checks: ValueCheck[];
+  mismatches: ValueCheck[];
+}
+
+// Tolerancia relativa (y un mínimo absoluto) para el redondeo de la IA
+const RELATIVE_TOLERANCE = 0.001;
+const ABSOLUTE_TOLERANCE = 0.01;
+
+// Pistas en el nombre de una métrica desconocida; el orden importa:
+// "montoPromedio" es un promedio aunque "monto" sugiera una suma
+const AGGREGATION_HINTS: [RegExp, Aggregation][] = [
+  [/promedio|average|avg|mean|\bmedia\b/, "mean"],
+  [/mediana|median/, "p50"],
+  [/m[aá]xim|\bmax\b|mayor/, "max"],
+  [/m[ií]nim|\bmin\b|menor/, "min"],
+  [/cantidad|count|\bnum\b|n[uú]mero|registros/, "count"],
+  [/total|suma|\bsum\b/, "sum"],
+];
+const PERCENTILE_HINT = /\bp(\d{1,2})\b|percentil(?:e)?\s*(\d{1,2})/;
+const OVERDUE_HINT = /vencid|overdue|mora|atras/;
+
+export const sameValue = (reported: number, expected: number) =>
+  Math.abs(reported - expected) <=
+  Math.max(Math.abs(expected) * RELATIVE_TOLERANCE, ABSOLUTE_TOLERANCE);
+
+const compact = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\d]/g, "");
+
+// Columna numérica nombrada dentro del texto; gana el nombre más largo
+const mentionedColumn = (text: string, rows: Row[], columns: string[]) =>
+  columns
+    .filter((col) => compact(col) && compact(text).includes(compact(col)))
+    .filter((col) => isNumericColumn(rows, col))
+    .sort((a, b) => compact(b).length - compact(a).length)[0];
+
+// Métricas fuera del registro: la agregación sale del nombre de la clave y
+// la columna de su mención en él ("promedioTasaInteres" -> mean(tasa_interes))
+const inferSource = (
+  key: string,
+  rows: Row[],
+  columns: string[]
+): { source: MetricSource; column?: string } | null => {
+  const words = humanizeKey(key).toLowerCase();
+  const percentileMatch = PERCENTILE_HINT.exec(words);
+  const aggregation: Aggregation | undefined = percentileMatch
+    ? `p${Number(percentileMatch[1] ?? percentileMatch[2])}`
+    : AGGREGATION_HINTS.find(([pattern]) => pattern.test(words))?.[1];
+  if (!aggregation) return null;
+  const overdue = OVERDUE_HINT.test(words);
+  const column = mentionedColumn(key, rows, columns);
+  // Un conteo sin columna solo es verificable si filtra atrasos
+  if (!column && !(aggregation === "count" && overdue)) return null;
+  return { source: { aggregation, overdue }, column };
+};
+
+const resolveMetric = (
+  key: string,
+  rows: Row[],
+  columns: string[]
+): number | null => {
+  const known = METRIC_REGISTRY[key]?.source;
+  const resolved = known
+    ? {
+        source: known,
+        column: known.column
+          ? findNumericColumn(rows, columns, known.column)
+          : undefined,
+      }
+    : inferSource(key, rows, columns);
+  if (!resolved) return null;
+  const { source, column } = resolved;
+  if (source.column && !column) return null;
+
+  let scope = rows;
+  if (source.overdue) {
+    const isOverdue = overdueFilter(rows, columns);
+    if (!isOverdue) return null;
+    scope = rows.filter(isOverdue);
+  }
+  return aggregate(scope, source.aggregation, column);
+};
+
+const verifyCalculations = (
+  calculations: Record<string, unknown>,
+  rows: Row[],
+  columns: string[]
+): ValueCheck[] =>
+  Object.entries(calculations).flatMap(([key, reported]) => {
+    if (typeof reported !== "number" || !Number.isFinite(reported)) return [];
+    const expected = resolveMetric(key, rows, columns);
+    if (expected === null) return [];
+    return [
+      {
+        label: metricLabel(key),
+        metric: key,
+        reported,
+        expected,
+        matches: sameValue(reported, expected),
+      },
+    ];
+  });
+
+// Columna cuyas categorías incluyen todas las etiquetas de la gráfica
+const findCategoryColumn = (chart: ChartData, rows: Row[], columns: string[]) =>
+  columns.find((col) => {
+    const labels = new Set(rows.map((row) => groupLabel(row[col])));
+    return chart.labels.every((label) => labels.has(label));
+  });
+
+// Cada serie se compara como suma o promedio de la columna que nombra, o
+// como conteo de filas si no nombra ninguna
+const verifyChart = (
+  chart: ChartData,
+  rows: Row[],
+  columns: string[]
+): ValueCheck[] => {
+  if (chart.type === "scatter" || chart.labels.length === 0) return [];
+  const category = findCategoryColumn(chart, rows, columns);
+  if (!category) return [];
+  const measures = columns.filter((col) => col !== category);
+  const series =
+    chart.series ??
+    (chart.data ? [{ name: chart.title, data: chart.data }] : []);
+
+  return series.flatMap(({ name, data }) => {
+    const measure =
+      mentionedColumn(name, rows, measures) ??
+      (series.length === 1
+        ? mentionedColumn(chart.title, rows, measures)
+        : undefined);
+    const candidates: Aggregation[] = measure ? ["sum", "mean"] : ["count"];
+    const results = candidates.map((aggregation) =>
+      groupBy(rows, category, aggregation, measure)
+    );
+    const matchesAll = (groups: Map<string, number | null>) =>
+      chart.labels.every((label, i) => {
+        const expected = groups.get(label);
+        return (
+          typeof data[i] !== "number" ||
+          (typeof expected === "number" && sameValue(data[i], expected))
+        );
+      });
+    const groups = results.find(matchesAll) ?? results[0];
+
+    return chart.labels.flatMap((label, i) => {
+      const reported = data[i];
+      if (typeof reported !== "number") return [];
+      const expected = groups.get(label) ?? null;
+      return [
+        {
+          label: `${name} · ${label}`,
+          reported,
+          expected,
+          matches: expected !== null && sameValue(reported, expected),
+        },
+      ];
+    });
+  });
+};
+
+// Recalcular es caro con archivos grandes y los mensajes se vuelven a
+// renderizar con cada token: se recuerda por filas y por mensaje
+const cache = new WeakMap<Row[], WeakMap<Message, Verification | null>>();
+
+// Recalcula en el navegador las métricas y la gráfica de una respuesta;
+// null si ninguna cifra se pudo reproducir a partir de las filas
+export const verifyMessage = (
+  message: Message,
+  rows: Row[]
+): Verification | null => {
+  const byMessage = cache.get(rows) ?? new WeakMap();
+  cache.set(rows, byMessage);
+  if (byMessage.has(message)) return byMessage.get(message) ?? null;
+
+  const columns = Object.keys(rows[0] ?? {});
+  const checks = [
+    ...(message.calculations
+      ? verifyCalculations(message.calculations, rows, columns)
+      : []),
+    ...(message.chartData ? verifyChart(message.chartData, rows, columns) : []),
+  ];
+  const verification =
+    checks.length > 0
+      ? { checks, mismatches: checks.filter((check) => !check.matches) }
+      : null;
+  byMessage.set(message, verification);
+  return verification;
+};
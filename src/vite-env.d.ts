@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE?: string;
+  readonly VITE_API_MOCK?: string;
+  readonly VITE_CHAT_STREAMING?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+interface Window {
+  __APP_CONFIG__?: {
+    apiBase?: string;
+    timeoutMs?: number;
+  };
+}